@@ -7,240 +7,798 @@
  * the corresponding Home Assistant entity state in real-time.
  *
  * The script listens for:
+ * - Call status reports from the Meet content script (lobby, joining, in call, left,
+ *   plus microphone, camera and presenting state)
  * - Tab creation/removal events
- * - Tab URL changes
+ * - Tab URL and title changes
  * - Extension installation
  *
- * When a meeting state change is detected, it:
+ * A tab counts as being in a meeting only when its content script reports "in_call".
+ * Meet tabs whose content script has not reported yet are asked for their call status,
+ * and only tabs without content script (opened before the extension was installed) fall
+ * back to URL matching.
+ * The tab reports and the last meeting status are kept in session storage, so a service
+ * worker started by Chrome after the previous one was stopped keeps the lobby tabs in the
+ * lobby and the start time of the ongoing meeting, and does not send its start again.
+ * A manual override set in the popup wins over the tabs, and while the updates are paused
+ * nothing is sent to Home Assistant until the pause ends.
+ *
+ * The active configuration profile is switched automatically between meetings when the
+ * conditions of another profile start matching (reachable Home Assistant, time of day).
+ * Everything is then sent again to the targets of the new profile.
+ *
+ * Outside the working-hours schedule, meetings are only tracked locally (badge, history).
+ * A meeting already sent when the schedule ends is followed until it is over, so Home
+ * Assistant still receives its "off"; a meeting in progress when the schedule starts is
+ * sent then.
+ *
+ * The reports are combined into a single meeting state (idle, lobby, in call, presenting,
+ * ended) together with the microphone, camera and presenting state.
+ *
+ * When a meeting status change is detected, it:
  * - Updates the extension badge to show current status
- * - Sends API calls or webhooks to Home Assistant
+ * - Opens a WebSocket connection to each Home Assistant target when a meeting starts (closed when idle)
+ * - Sends API calls, webhooks or events to every enabled target, independently of each other
+ * - Runs the service calls of the rules triggered by the change
+ * - Queues failed updates in an outbox and replays them when the network is back
+ * - Shows a desktop notification when an update fails after all retries, with the reason
+ * - Sends heartbeats while in a meeting, so Home Assistant can turn the entity off if the browser dies
+ * - Records the finished meeting in the local history
+ * - Runs the quick actions of the keyboard shortcuts and of the extension icon context menu
+ * - Publishes today's meeting minutes and count, starting again from zero at local midnight
  * - Handles errors gracefully with visual feedback
  *
+ * The meeting entity of every API target is also read back periodically, so changes made
+ * in Home Assistant (or updates lost on the way) are noticed and, depending on the
+ * reconciliation policy, corrected or shown as a warning in the popup.
+ *
  * METHODS:
+ * - requestCallStatus(): Asks the content script of a tab for its call status
+ * - getMeetingStatus(): Computes the meeting status from content script reports
+ * - deliverInOrder(): Runs the deliveries to a target one after another
+ * - publishToTarget(): Publishes a meeting status to one target, after the updates sent to it before
+ * - deliverToTarget(): Delivers a meeting status to one target and records the result
+ * - updateBadge(): Shows the meeting state, the pending updates, the pause or the override in the action badge
+ * - scheduleOutboxReplay(): Starts or stops the alarm replaying the pending updates
+ * - replayOutbox(): Delivers the updates that failed earlier
+ * - retryTarget(): Delivers the failed update of a target right away
+ * - scheduleReconciliation(): Starts or stops the alarm reading the meeting entities back
+ * - reconcileTarget(): Compares the meeting entity of one target with the meeting state
+ * - reconcileTargets(): Compares the meeting entity of every API target with the meeting state
+ * - scheduleHeartbeat(): Starts or stops the alarm sending heartbeats during meetings
+ * - sendHeartbeats(): Sends a heartbeat to every enabled target
+ * - recordMeeting(): Records a finished meeting in the local history
+ * - scheduleDailyTotals(): Starts or stops the alarms publishing today's meeting minutes and count
+ * - publishDailyTotalsToTargets(): Publishes today's meeting minutes and count to every API target
+ * - schedulePauseEnd(): Starts or stops the alarm ending the pause of the updates
+ * - applyManualControl(): Saves a control set from the popup and applies it
+ * - scheduleWorkingHours(): Starts or stops the alarm checking the schedule every minute
+ * - publishStatus(): Sends a meeting status to every enabled target, within the schedule
+ * - scheduleProfileSwitch(): Starts or stops the alarm checking the automatic profile switching
+ * - autoSwitchProfile(): Activates the profile whose switching conditions match
+ * - activateProfile(): Activates a profile picked in the popup or options page, ending the meeting on the previous targets
  * - updateMeetingStateIfNeeded(): Main function that checks meeting status and updates HA
+ * - resendState(): Sends the current meeting status to every enabled target again
+ * - runQuickAction(): Runs a keyboard shortcut or context menu action
+ * - createContextMenus(): Adds the quick actions to the context menu of the extension icon
+ * - upgradeSettings(): Writes the settings saved by a previous version back in the current schema version
+ * - restoreWorkerState(): Restores the tab reports and meeting statuses of the previous service worker
+ * - persistWorkerState(): Saves the tab reports and meeting statuses for the next service worker
  *
  * EVENT LISTENERS:
- * - chrome.runtime.onInstalled: Runs on extension installation
+ * - chrome.runtime.onMessage: Receives call status reports, popup status requests, manual controls and profile switches
+ * - chrome.runtime.onInstalled: Runs on extension installation, creates the context menu, and upgrades
+ *   the stored settings after an update
+ * - chrome.commands.onCommand / chrome.contextMenus.onClicked: Run the quick actions
+ * - chrome.alarms.onAlarm: Replays the pending updates every minute, reads the meeting entities back,
+ *   sends the heartbeats during meetings, publishes today's totals during meetings and at midnight,
+ *   resumes the updates when the pause ends, sends the meeting status when the schedule starts,
+ *   and switches the profile when the conditions of another one match
+ * - chrome.storage.onChanged: Reschedules the reconciliation, heartbeats and schedule checks when the configuration changes,
+ *   and sends everything to the targets of a newly active profile
+ * - chrome.runtime.onSuspend: Best effort "off" when the browser shuts down during a meeting
+ * - chrome.notifications.onButtonClicked / onClicked: Retries a failed update or opens the settings
+ * - online: Replays the pending updates and checks the automatic profile switching when the network is back
  * - chrome.tabs.onRemoved: Runs when tabs are closed
- * - chrome.tabs.onUpdated: Runs when tab URLs change
+ * - chrome.tabs.onUpdated: Runs when tab URLs or titles change
  *
  * STATE MANAGEMENT:
- * - wasInMeeting: Caches previous meeting state to avoid duplicate updates
- * - Badge updates: Shows "ON" (red) when in meeting, empty (green) when not, "!" (orange) on errors
+ * - lastStatus: Caches the previous meeting status to avoid duplicate updates
+ * - lastPublished: Last meeting status sent to Home Assistant, behind lastStatus outside the schedule
+ * - lastConfig: Configuration of the last update, used when there is no time to load it
+ * - lastControl: Manual control read with the last meeting status
+ * - lastAutoProfile: Profile picked by the last automatic switching check
+ * - tabReports: Last call status reported by the content script of each Meet tab
+ * - lastStatus, lastPublished and tabReports are saved in chrome.storage.session and restored
+ *   when the service worker starts (see workerstate.ts)
+ * - targetDeliveries: Last delivery started to each target, so a target receives its updates in order
+ * - targetResults: Result of the last update delivered to each target, and whether its entity disagrees
+ * - Badge updates: Shows "ON" (red) when in a call, "..." (blue) in the lobby, empty (green) otherwise,
+ *   "↻" (amber) while updates are pending, "ON"/"OFF" (purple) while overridden, "⏸" (grey) while paused,
+ *   "!" (orange) on errors
  */
 
-// Cache the previous meeting state to avoid unnecessary updates
-let wasInMeeting: boolean | null = null;
-
-// Default configuration
-const defaultConfig = {
-    host: "",
-    token: "",
-    entity_id: "input_boolean.in_meeting",
-    method: "api",
-    webhook_url: "",
-    language: "en"
+import { Config, Target, loadConfig, upgradeConfig, validateConfig } from "./config";
+import { ManualControl, getManualControl, getPauseEnd, isPaused, pauseUpdates, setOverride } from "./control";
+import {
+    TargetResult,
+    closeMqtt,
+    closeWebSocket,
+    forgetReachability,
+    getDeliveryFailure,
+    openWebSocket,
+    publishDailyTotals,
+    publishMeetingStatus,
+    readMeetingEntity,
+    sendHeartbeat,
+    setEntityState,
+} from "./hass";
+import { getDailyTotals, getSessions, recordSession } from "./history";
+import { getInactiveConfigs, getProfiles, hasActiveProfileChanged, selectProfile, switchProfile, upgradeProfiles } from "./profiles";
+import { isWithinSchedule } from "./schedule";
+import { clearDeliveryFailure, getNotifiedTargetId, notifyDeliveryFailure } from "./notifications";
+import { getPendingUpdate, getPendingUpdates, queueUpdate, removeUpdate } from "./outbox";
+import { runRules } from "./rules";
+import { getWorkerState, saveWorkerState } from "./workerstate";
+import {
+    CallPhase,
+    CallStatusMessage,
+    MediaState,
+    MeetingState,
+    MeetingStatus,
+    MEET_TAB_URL,
+    getMeetingCode,
+    getMeetingTitle,
+    isInCall,
+    nextMeetingState,
+} from "./meet";
+
+// Tab call phases that make up each meeting state, used to find the current meeting code
+const STATE_PHASES: Record<MeetingState, CallPhase[]> = {
+    idle: [],
+    lobby: ["lobby", "joining"],
+    in_call: ["in_call"],
+    presenting: ["in_call"],
+    ended: ["left"],
+};
+
+// Cache the previous meeting status to avoid unnecessary updates
+let lastStatus: MeetingStatus | null = null;
+
+// Last meeting status sent to Home Assistant, which stops following lastStatus outside the schedule
+let lastPublished: MeetingStatus | null = null;
+
+// Configuration of the last update, as the worker has no time to load it when suspended
+let lastConfig: Config | null = null;
+
+// Manual control read with the last meeting status, as the worker has no time to load it when suspended
+let lastControl: ManualControl | null = null;
+
+// Profile picked by the last automatic switching check, or null if none matched or it did not run yet
+let lastAutoProfile: string | null = null;
+
+// Last call status reported by the content script of each Meet tab, keyed by tab ID
+const tabReports = new Map<number, CallStatusMessage>();
+
+// Restoring the state above from the previous service worker; functions reading it wait for it
+let restoringState: Promise<void> = Promise.resolve();
+
+// Last delivery started to each target, keyed by target ID; deliveries to a target run one after
+// another, so a retried older update cannot land after a newer one
+const targetDeliveries = new Map<string, Promise<unknown>>();
+
+// Result of the last update delivered to each target, keyed by target ID
+const targetResults = new Map<string, TargetResult>();
+
+// Alarm replaying the outbox while updates are waiting to be delivered
+const OUTBOX_ALARM = "outbox-replay";
+
+// Alarm reading the meeting entities back from Home Assistant
+const RECONCILE_ALARM = "reconcile";
+
+// Alarm sending the heartbeats during meetings
+const HEARTBEAT_ALARM = "heartbeat";
+
+// Alarm publishing today's meeting minutes during meetings, and how often
+const DAILY_TOTALS_ALARM = "daily-totals";
+const DAILY_TOTALS_INTERVAL = 5;
+
+// Alarm publishing the reset of today's totals at local midnight
+const MIDNIGHT_ALARM = "midnight";
+
+// Alarm resuming the updates when the pause ends
+const PAUSE_ALARM = "pause-end";
+
+// Alarm checking every minute whether the schedule started or ended
+const SCHEDULE_ALARM = "schedule";
+
+// Alarm checking the automatic profile switching, and how often
+const PROFILE_ALARM = "profile-switch";
+const PROFILE_CHECK_INTERVAL = 5;
+
+// Actions of the keyboard shortcuts (see "commands" in manifest.json) and of the context menu
+type QuickAction = "toggle-override" | "toggle-pause" | "resend-state";
+
+// Context menu titles of the quick actions
+const QUICK_ACTION_TITLES: Record<QuickAction, string> = {
+    "toggle-override": "Toggle manual busy",
+    "toggle-pause": "Pause or resume automatic updates (1 hour)",
+    "resend-state": "Resend current state to Home Assistant",
 };
 
-// Load configuration from Chrome storage
-async function loadConfig() {
+// Tooltip of the extension icon when nothing is pending
+const DEFAULT_TITLE = "Google Meet ↔ Home Assistant";
+
+// Whether the outbox is being replayed
+let replayingOutbox = false;
+
+// Whether the meeting entities are being read back
+let reconciling = false;
+
+// Asks the content script of a tab that has not reported yet for its call status, e.g. while its report is on the way
+function requestCallStatus(tabId: number): Promise<CallStatusMessage | undefined> {
+    return new Promise((resolve) => {
+        chrome.tabs.sendMessage(tabId, { type: "get-call-status" }, (response?: CallStatusMessage) => {
+            // Tabs opened before the extension was installed have no content script to answer
+            if (chrome.runtime.lastError || response?.type !== "call-status") {
+                resolve(undefined);
+                return;
+            }
+
+            tabReports.set(tabId, response);
+            persistWorkerState();
+            resolve(response);
+        });
+    });
+}
+
+// Computes the meeting state and microphone, camera and presenting state from the open Meet tabs
+async function getMeetingStatus(): Promise<MeetingStatus> {
+    await restoringState;
+    const tabs = await chrome.tabs.query({
+        url: MEET_TAB_URL,
+    });
+
+    const phases: Array<{ phase: CallPhase; presenting: boolean; meetingCode: string | null; meetingTitle: string | null }> = [];
+    const media: MediaState = { microphone: false, camera: false, presenting: false };
+
+    for (const tab of tabs) {
+        const report = tab.id !== undefined ? tabReports.get(tab.id) ?? await requestCallStatus(tab.id) : undefined;
+        const meetingCode = getMeetingCode(tab.url);
+        const meetingTitle = getMeetingTitle(tab.title, meetingCode);
+
+        // Fall back to URL matching in tabs without content script, opened before the extension was installed
+        if (report === undefined) {
+            phases.push({ phase: "in_call", presenting: false, meetingCode, meetingTitle });
+            continue;
+        }
+
+        phases.push({ phase: report.phase, presenting: report.presenting, meetingCode, meetingTitle });
+
+        // The microphone/camera/presenting count as on if they are on in any call
+        if (report.phase === "in_call") {
+            media.microphone = media.microphone || report.microphone === true;
+            media.camera = media.camera || report.camera === true;
+            media.presenting = media.presenting || report.presenting;
+        }
+    }
+
+    let state = nextMeetingState(lastStatus?.state ?? "idle", phases);
+    const current = phases.find((tab) => STATE_PHASES[state].includes(tab.phase));
+
+    // A manual override wins over the tabs, e.g. during a phone call
+    const control = await getManualControl();
+    lastControl = control;
+    if (control.override === true && !isInCall(state)) {
+        state = "in_call";
+    } else if (control.override === false && isInCall(state)) {
+        state = "idle";
+        media.microphone = false;
+        media.camera = false;
+        media.presenting = false;
+    }
+
+    // Keep the start time of an ongoing call
+    let startedAt: number | null = null;
+    if (isInCall(state)) {
+        startedAt = lastStatus?.startedAt ?? Date.now();
+    }
+
+    return {
+        state,
+        media,
+        meetingCode: current?.meetingCode ?? null,
+        startedAt,
+        meetingTitle: current?.meetingTitle ?? null,
+        tabCount: tabs.length,
+    };
+}
+
+// Runs a delivery to a target once the deliveries started before it are over
+function deliverInOrder<T>(targetId: string, delivery: () => Promise<T>): Promise<T> {
+    const next = (targetDeliveries.get(targetId) ?? Promise.resolve()).then(delivery);
+
+    // A failed delivery must not block the following ones
+    targetDeliveries.set(targetId, next.catch(() => undefined));
+    return next;
+}
+
+// Publishes a meeting status to one target, after the updates sent to it before
+function publishToTarget(config: Config, target: Target, status: MeetingStatus, previous: MeetingStatus | null): Promise<boolean> {
+    return deliverInOrder(target.id, () => deliverToTarget(config, target, status, previous));
+}
+
+// Delivers a meeting status to one target and runs the triggered rules on it, keeping its WebSocket
+// connection open during meetings
+async function deliverToTarget(config: Config, target: Target, status: MeetingStatus, previous: MeetingStatus | null): Promise<boolean> {
+    // A target that missed updates is brought up to date from the last status it received
+    const pending = await getPendingUpdate(target.id);
+    if (pending !== null) {
+        previous = pending.previous;
+    }
+
+    const useWebSocket = target.use_websocket && (target.method === "api" || target.method === "event");
+
+    let success = false;
     try {
-        const result = await chrome.storage.sync.get(defaultConfig);
-        return result;
+        if (useWebSocket && status.state !== "idle") {
+            await openWebSocket(target);
+        }
+
+        success = await publishMeetingStatus(config, target, status, previous);
+
+        // Rules run after the meeting entities, so they can rely on them being up to date
+        const rulesSuccess = await runRules(config, target, status, previous);
+        success = success && rulesSuccess;
     } catch (error) {
-        console.error("Error loading config:", error);
-        return defaultConfig;
+        console.error(`Error publishing to ${target.name}:`, error);
+    }
+
+    if (!useWebSocket || status.state === "idle") {
+        closeWebSocket(target.id);
+    }
+
+    // Keep failed updates until they can be delivered; an update queued while this one was
+    // on its way is newer, and stays
+    if (success) {
+        if (pending !== null) {
+            await removeUpdate(target.id, pending.updatedAt);
+        }
+        await clearDeliveryFailure(target.id);
+    } else {
+        await queueUpdate(target.id, status, previous);
+        await notifyDeliveryFailure(config, target, getDeliveryFailure(target.id) ?? "error");
     }
+
+    targetResults.set(target.id, {
+        id: target.id,
+        name: target.name,
+        success,
+        pending: !success,
+        mismatch: null,
+        timestamp: Date.now(),
+    });
+    return success;
 }
 
-// Validate configuration
-function validateConfig(config: any) {
-    const errors: string[] = [];
+// Shows the meeting state in the action badge, or that updates are paused, waiting to be delivered or overridden
+async function updateBadge() {
+    await restoringState;
+    const control = await getManualControl();
+    if (isPaused(control)) {
+        const until = new Date(control.pausedUntil ?? 0).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+        chrome.action.setBadgeText({ text: "⏸" });
+        chrome.action.setBadgeBackgroundColor({ color: "#757575" });
+        chrome.action.setTitle({ title: `${DEFAULT_TITLE}\nUpdates paused until ${until}` });
+        return;
+    }
+
+    const pending = Object.keys(await getPendingUpdates());
+
+    if (pending.length > 0) {
+        const names = pending.map((id) => targetResults.get(id)?.name ?? id);
+        chrome.action.setBadgeText({ text: "↻" });
+        chrome.action.setBadgeBackgroundColor({ color: "#F9A825" });
+        chrome.action.setTitle({ title: `${DEFAULT_TITLE}\nUpdates pending: ${names.join(", ")}` });
+        return;
+    }
 
-    if (!config.host && !config.token && !config.webhook_url) {
-        return { isValid: false, errors: ["Please configure the extension first"] };
+    if (control.override !== null) {
+        chrome.action.setBadgeText({ text: control.override ? "ON" : "OFF" });
+        chrome.action.setBadgeBackgroundColor({ color: "#7B1FA2" });
+        chrome.action.setTitle({ title: `${DEFAULT_TITLE}\nManual override: ${control.override ? "on" : "off"}` });
+        return;
     }
 
-    if (config.method === "api") {
-        if (!config.host || config.host.trim() === "") {
-            errors.push("Home Assistant URL is required");
-        } else if (!config.host.startsWith("http://") && !config.host.startsWith("https://")) {
-            errors.push("Home Assistant URL must start with http:// or https://");
+    chrome.action.setTitle({ title: DEFAULT_TITLE });
+
+    if (lastStatus !== null && isInCall(lastStatus.state)) {
+        // Show "ON" badge when in meeting
+        chrome.action.setBadgeText({ text: "ON" });
+        chrome.action.setBadgeBackgroundColor({ color: "#FF0000" }); // Red for visibility
+    } else if (lastStatus?.state === "lobby") {
+        // Show "..." badge while waiting to join
+        chrome.action.setBadgeText({ text: "..." });
+        chrome.action.setBadgeBackgroundColor({ color: "#1976D2" });
+    } else {
+        // Clear badge when not in meeting
+        chrome.action.setBadgeText({ text: "" });
+        chrome.action.setBadgeBackgroundColor({ color: "#00FF00" }); // Green for visibility
+    }
+}
+
+// Replays the queued updates periodically while there are some
+async function scheduleOutboxReplay() {
+    const pending = Object.keys(await getPendingUpdates());
+
+    if (pending.length === 0) {
+        chrome.alarms.clear(OUTBOX_ALARM);
+    } else if (!(await chrome.alarms.get(OUTBOX_ALARM))) {
+        chrome.alarms.create(OUTBOX_ALARM, { periodInMinutes: 1 });
+    }
+}
+
+// Delivers the queued updates, e.g. once the network is back
+async function replayOutbox() {
+    await restoringState;
+    if (replayingOutbox || !navigator.onLine) {
+        return;
+    }
+
+    replayingOutbox = true;
+    try {
+        // The pending updates are delivered when the pause ends
+        if (isPaused(await getManualControl())) {
+            return;
         }
 
-        if (!config.entity_id || config.entity_id.trim() === "") {
-            errors.push("Entity ID is required");
+        const outbox = Object.values(await getPendingUpdates());
+        if (outbox.length > 0) {
+            const config = await loadConfig();
+            const inactiveConfigs = await getInactiveConfigs();
+
+            await Promise.all(outbox.map(async (update) => {
+                const target = config.targets.find((item) => item.id === update.targetId && item.enabled);
+                if (target !== undefined) {
+                    // The queued status may be older than the one sent since, which must not be undone
+                    await publishToTarget(config, target, lastPublished ?? update.status, update.previous);
+                    return;
+                }
+
+                // The targets of the previous profile still receive what they missed, e.g. the end of the meeting
+                const inactiveConfig = inactiveConfigs.find((item) => item.targets.some((other) => other.id === update.targetId && other.enabled));
+                const inactiveTarget = inactiveConfig?.targets.find((item) => item.id === update.targetId);
+                if (inactiveConfig !== undefined && inactiveTarget !== undefined) {
+                    await publishToTarget(inactiveConfig, inactiveTarget, update.status, update.previous);
+                    return;
+                }
+
+                // Nothing to deliver to disabled or removed targets
+                await removeUpdate(update.targetId, update.updatedAt);
+            }));
         }
 
-        if (!config.token || config.token.trim() === "" || config.token === "xxxxxxx") {
-            errors.push("Authorization token is required");
+        await scheduleOutboxReplay();
+        await updateBadge();
+    } catch (error) {
+        console.error("Error replaying pending updates:", error);
+    } finally {
+        replayingOutbox = false;
+    }
+}
+
+// Delivers the failed update of a target right away, without waiting for the next replay
+async function retryTarget(targetId: string) {
+    const config = await loadConfig();
+    const target = config.targets.find((item) => item.id === targetId);
+    if (target !== undefined) {
+        // The target may be back within the reachability cache period
+        forgetReachability(target);
+    }
+
+    await replayOutbox();
+}
+
+// Reads the meeting entities back periodically, unless the reconciliation is off or there is nothing to read
+async function scheduleReconciliation() {
+    const config = await loadConfig();
+    const hasApiTargets = config.targets.some((target) => target.enabled && target.method === "api");
+
+    if (config.reconcile_policy === "off" || !hasApiTargets) {
+        chrome.alarms.clear(RECONCILE_ALARM);
+        // Older warnings would never be cleared
+        targetResults.forEach((result, id) => targetResults.set(id, { ...result, mismatch: null }));
+        return;
+    }
+
+    const alarm = await chrome.alarms.get(RECONCILE_ALARM);
+    if (alarm?.periodInMinutes !== config.reconcile_interval) {
+        chrome.alarms.create(RECONCILE_ALARM, { periodInMinutes: config.reconcile_interval });
+    }
+}
+
+// Compares the meeting entity of a target with the meeting state, and corrects or reports it
+async function reconcileTarget(config: Config, target: Target, status: MeetingStatus) {
+    const expected = isInCall(status.state);
+
+    let mismatch: string | null = null;
+    try {
+        const entity = await readMeetingEntity(config, target);
+
+        // An update sent while reading will set the entity anyway
+        if (lastPublished !== status) {
+            return;
         }
-    } else if (config.method === "webhook") {
-        if (!config.webhook_url || config.webhook_url.trim() === "") {
-            errors.push("Webhook URL is required");
+
+        if (entity.value !== null && entity.value !== expected) {
+            const correct = config.reconcile_policy === "always" || (config.reconcile_policy === "in_meeting" && expected);
+            console.warn(`${target.name}: ${target.entity_id} is "${entity.state}" in Home Assistant${correct ? ", correcting it" : ""}`);
+
+            mismatch = entity.state;
+            if (correct && await setEntityState(config, target, expected)) {
+                mismatch = null;
+            }
         }
+    } catch (error) {
+        // Keep the previous result, the next read may work
+        console.error(`Error reading ${target.entity_id} from ${target.name}:`, error);
+        return;
     }
 
-    return { isValid: errors.length === 0, errors };
+    const result = targetResults.get(target.id)
+        ?? { id: target.id, name: target.name, success: true, pending: false, mismatch: null, timestamp: Date.now() };
+    targetResults.set(target.id, { ...result, name: target.name, mismatch });
 }
 
-// Check network connectivity
-async function checkNetworkConnectivity(): Promise<boolean> {
+// Compares the meeting entity of every API target with the meeting state
+async function reconcileTargets() {
+    await restoringState;
+    const status = lastPublished;
+    if (reconciling || status === null || !navigator.onLine) {
+        return;
+    }
+
+    reconciling = true;
     try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 5000);
+        const config = await loadConfig();
+        if (config.reconcile_policy === "off" || !validateConfig(config).isValid || isPaused(await getManualControl())) {
+            return;
+        }
 
-        const response = await fetch("https://www.google.com/favicon.ico", {
-            method: "HEAD",
-            signal: controller.signal,
-            cache: "no-cache"
-        });
+        // Targets with pending updates are brought up to date by the outbox
+        const pending = await getPendingUpdates();
+        const targets = config.targets.filter((target) =>
+            target.enabled && target.method === "api" && pending[target.id] === undefined
+        );
 
-        clearTimeout(timeout);
-        return response.ok;
+        await Promise.all(targets.map((target) => reconcileTarget(config, target, status)));
     } catch (error) {
-        console.error("Network connectivity check failed:", error);
-        return false;
+        console.error("Error reading the meeting entities back:", error);
+    } finally {
+        reconciling = false;
     }
 }
 
-// Update entity state via API
-async function setEntityStateAPI(config: any, newValue: boolean) {
+// Sends heartbeats periodically while in a meeting, unless they are disabled
+async function scheduleHeartbeat() {
+    await restoringState;
+    // The meeting status is not known yet when the worker starts
+    if (lastPublished === null) {
+        return;
+    }
+
+    const config = await loadConfig();
+    if (!config.heartbeat_enabled || !isInCall(lastPublished.state)) {
+        chrome.alarms.clear(HEARTBEAT_ALARM);
+        return;
+    }
+
+    const alarm = await chrome.alarms.get(HEARTBEAT_ALARM);
+    if (alarm?.periodInMinutes !== config.heartbeat_interval) {
+        chrome.alarms.create(HEARTBEAT_ALARM, { periodInMinutes: config.heartbeat_interval });
+    }
+}
+
+// Tells every enabled target the browser is still in the meeting
+async function sendHeartbeats() {
+    await restoringState;
+    const status = lastPublished;
+    if (status === null || !isInCall(status.state)) {
+        return;
+    }
+
     try {
-        // First try using service calls for boolean entities
-        const service = newValue ? "input_boolean.turn_on" : "input_boolean.turn_off";
-        const serviceUrl = `${config.host}/api/services/${service}`;
-
-        const response = await fetch(serviceUrl, {
-            method: "POST",
-            headers: {
-                Authorization: "Bearer " + config.token,
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                entity_id: config.entity_id,
-            }),
-        });
+        const config = await loadConfig();
+        if (!config.heartbeat_enabled || !validateConfig(config).isValid) {
+            return;
+        }
 
-        if (!response.ok) {
-            // Fallback to direct state setting if service call fails
-            const stateUrl = `${config.host}/api/states/${config.entity_id}`;
-
-            const fallbackResponse = await fetch(stateUrl, {
-                method: "POST",
-                headers: {
-                    Authorization: "Bearer " + config.token,
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                    state: newValue ? "on" : "off",
-                }),
-            });
-
-            if (!fallbackResponse.ok) {
-                console.error(`Both service call and direct state setting failed: HTTP ${fallbackResponse.status} ${fallbackResponse.statusText}`);
-                throw new Error(`HTTP ${fallbackResponse.status}: ${fallbackResponse.statusText}`);
-            }
+        // Nothing is sent while paused
+        if (isPaused(await getManualControl())) {
+            return;
+        }
+
+        // Targets with pending updates are brought up to date by the outbox
+        const pending = await getPendingUpdates();
+        const targets = config.targets.filter((target) => target.enabled && pending[target.id] === undefined);
+
+        // A heartbeat waiting behind a newer update is dropped, as it would send the meeting again
+        const results = await Promise.all(targets.map((target) => deliverInOrder(target.id, () =>
+            lastPublished === status ? sendHeartbeat(config, target, status) : Promise.resolve(true)
+        )));
+        if (results.some((success) => !success)) {
+            console.error("Failed to send heartbeats to some targets");
         }
     } catch (error) {
-        console.error("Error updating entity state via API:", error);
-        throw error;
+        console.error("Error sending heartbeats:", error);
     }
 }
 
-// Update entity state via webhook
-async function setEntityStateWebhook(config: any, newValue: boolean) {
+// Records the meeting that just ended in the local history, whether or not Home Assistant is configured
+async function recordMeeting(previous: MeetingStatus) {
+    if (previous.startedAt === null) {
+        return;
+    }
+
     try {
-        const response = await fetch(config.webhook_url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                value: newValue ? "on" : "off",
-            }),
-        });
+        const config = await loadConfig();
 
-        if (!response.ok) {
-            console.error(`Failed to update entity state via webhook: HTTP ${response.status} ${response.statusText}`);
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        // Meetings starting outside the schedule are only recorded when tracked locally
+        if (!config.schedule.track_locally && !isWithinSchedule(config.schedule, new Date(previous.startedAt))) {
+            return;
         }
+
+        await recordSession({
+            start: previous.startedAt,
+            end: Date.now(),
+            meetingCode: previous.meetingCode,
+            meetingTitle: previous.meetingTitle ?? null,
+        }, config.history_retention_days);
     } catch (error) {
-        console.error("Error updating entity state via webhook:", error);
-        throw error;
+        console.error("Error recording the meeting history:", error);
     }
 }
 
-// Retry with exponential backoff
-async function retryWithBackoff(fn: () => Promise<any>, maxRetries: number = 3, baseDelay: number = 1000) {
-    let lastError: any;
+// Publishes today's totals periodically during meetings, and again at the next local midnight
+async function scheduleDailyTotals() {
+    await restoringState;
+    const config = await loadConfig();
+    const hasSensors = config.targets.some((target) =>
+        target.enabled && target.method === "api" &&
+        (target.minutes_today_entity_id.trim() !== "" || target.meetings_today_entity_id.trim() !== "")
+    );
 
-    for (let i = 0; i <= maxRetries; i++) {
-        try {
-            return await fn();
-        } catch (error) {
-            lastError = error;
-            if (i === maxRetries) {
-                throw lastError;
-            }
+    if (!hasSensors) {
+        chrome.alarms.clear(DAILY_TOTALS_ALARM);
+        chrome.alarms.clear(MIDNIGHT_ALARM);
+        return;
+    }
 
-            const delay = baseDelay * Math.pow(2, i);
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
+    // Alarms fire as soon as possible when the computer was asleep at the scheduled time, so
+    // a midnight still to come (or missed while asleep) is kept
+    if (!(await chrome.alarms.get(MIDNIGHT_ALARM))) {
+        const now = new Date();
+        chrome.alarms.create(MIDNIGHT_ALARM, { when: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime() });
     }
 
-    throw lastError;
+    // The meeting status is not known yet when the worker starts
+    if (lastStatus === null) {
+        return;
+    }
+    if (!isInCall(lastStatus.state)) {
+        chrome.alarms.clear(DAILY_TOTALS_ALARM);
+    } else if (!(await chrome.alarms.get(DAILY_TOTALS_ALARM))) {
+        chrome.alarms.create(DAILY_TOTALS_ALARM, { periodInMinutes: DAILY_TOTALS_INTERVAL });
+    }
 }
 
-// Set entity state in Home Assistant
-async function setEntityState(config: any, newValue: boolean): Promise<boolean> {
+// Publishes today's meeting minutes and count to the sensors of every enabled API target
+async function publishDailyTotalsToTargets() {
+    await restoringState;
     try {
-        // Check network connectivity first
-        const isNetworkAvailable = await checkNetworkConnectivity();
-        if (!isNetworkAvailable) {
-            console.error("No network connectivity available");
-            return false;
+        const config = await loadConfig();
+        if (!validateConfig(config).isValid) {
+            return;
         }
 
-        // Use retry logic for the actual API call
-        const result = await retryWithBackoff(async () => {
-            if (config.method === "webhook") {
-                return await setEntityStateWebhook(config, newValue);
-            } else {
-                return await setEntityStateAPI(config, newValue);
-            }
-        });
+        // Nothing is sent while paused, nor outside the schedule unless a meeting already sent is
+        // followed (as in publishStatus), but the totals are still reset at the next midnight
+        const followingMeeting = lastPublished !== null && lastPublished.state !== "idle";
+        if (isPaused(await getManualControl()) || (!isWithinSchedule(config.schedule) && !followingMeeting)) {
+            await scheduleDailyTotals();
+            return;
+        }
 
-        return result;
+        const ongoingStart = lastStatus !== null && isInCall(lastStatus.state) ? lastStatus.startedAt : null;
+        const totals = getDailyTotals(await getSessions(), ongoingStart);
+
+        const targets = config.targets.filter((target) => target.enabled);
+        const results = await Promise.all(targets.map((target) => publishDailyTotals(target, totals)));
+        if (results.some((success) => !success)) {
+            console.error("Failed to publish today's meeting totals to some targets");
+        }
+
+        await scheduleDailyTotals();
     } catch (error) {
-        console.error("Failed to update Home Assistant entity state after retries:", error);
-        return false;
+        console.error("Error publishing today's meeting totals:", error);
+    }
+}
+
+// Resumes the updates when the pause ends, even if the worker was stopped in the meantime
+async function schedulePauseEnd() {
+    const control = await getManualControl();
+
+    if (control.pausedUntil === null) {
+        chrome.alarms.clear(PAUSE_ALARM);
+    } else {
+        chrome.alarms.create(PAUSE_ALARM, { when: control.pausedUntil });
+    }
+}
+
+// Saves the override or pause set in the popup, then publishes the resulting meeting status
+async function applyManualControl(change: () => Promise<ManualControl>): Promise<ManualControl> {
+    const control = await change();
+    lastControl = control;
+
+    await schedulePauseEnd();
+    await updateBadge();
+    if (!isPaused(control)) {
+        await updateMeetingStateIfNeeded();
+        await replayOutbox();
     }
+    return control;
 }
 
 // Updates the meeting state in Home Assistant if it has changed
 async function updateMeetingStateIfNeeded() {
-    const tabs = await chrome.tabs.query({
-        url: "https://meet.google.com/*-*-*",
-    });
-    const isInMeeting = tabs.length > 0;
+    const status = await getMeetingStatus();
+
+    // Don't send an entity update if the status hasn't changed, unless the meeting was ended
+    // when the previous worker was stopped (see onSuspend)
+    if (JSON.stringify(lastStatus) === JSON.stringify(status)) {
+        if (lastPublished === null && isInCall(status.state) && !(lastControl !== null && isPaused(lastControl))) {
+            await publishStatus(status);
+        }
+        return;
+    }
 
-    // Don't send an entity update if the state hasn't changed
-    if (wasInMeeting === isInMeeting) {
+    // Nothing is sent while paused; the status is compared with the last published one when the pause ends
+    if (lastControl !== null && isPaused(lastControl)) {
+        await updateBadge();
         return;
     }
 
-    wasInMeeting = isInMeeting;
+    const previous = lastStatus;
+    lastStatus = status;
+    persistWorkerState();
 
     // Set the action indicator immediately
-    if (isInMeeting) {
-        // Show "ON" badge when in meeting
-        chrome.action.setBadgeText({ text: "ON" });
-        chrome.action.setBadgeBackgroundColor({ color: "#FF0000" }); // Red for visibility
-    } else {
-        // Clear badge when not in meeting
-        chrome.action.setBadgeText({ text: "" });
-        chrome.action.setBadgeBackgroundColor({ color: "#00FF00" }); // Green for visibility
+    await updateBadge();
+
+    if (previous !== null && isInCall(previous.state) && !isInCall(status.state)) {
+        await recordMeeting(previous);
+    }
+
+    await publishStatus(status);
+}
+
+// Checks the schedule every minute while it is enabled, as it gates the updates
+async function scheduleWorkingHours() {
+    const config = await loadConfig();
+
+    if (!config.schedule.enabled) {
+        chrome.alarms.clear(SCHEDULE_ALARM);
+    } else if (!(await chrome.alarms.get(SCHEDULE_ALARM))) {
+        chrome.alarms.create(SCHEDULE_ALARM, { periodInMinutes: 1 });
+    }
+}
+
+// Sends a meeting status to every enabled target, unless it was already sent or is outside the schedule
+async function publishStatus(status: MeetingStatus) {
+    await restoringState;
+    // The schedule is checked every minute, and the status rarely changes in between
+    if (JSON.stringify(lastPublished) === JSON.stringify(status)) {
+        return;
     }
 
     // Send the entity update to Home Assistant
@@ -253,34 +811,358 @@ async function updateMeetingStateIfNeeded() {
             // Don't change badge for unconfigured state - let it show meeting status
             return;
         }
+        lastConfig = config;
+
+        const targets = config.targets.filter((target) => target.enabled);
+
+        // Forget targets that were disabled or removed since the last update
+        for (const id of Array.from(targetResults.keys())) {
+            if (!targets.some((target) => target.id === id)) {
+                targetResults.delete(id);
+                closeWebSocket(id);
+                closeMqtt(id);
+            }
+        }
+
+        // Outside the schedule, only a meeting already sent is followed until it is over
+        const followingMeeting = lastPublished !== null && lastPublished.state !== "idle";
+        if (!isWithinSchedule(config.schedule) && !followingMeeting) {
+            return;
+        }
+
+        const previous = lastPublished;
+        lastPublished = status;
+        persistWorkerState();
 
-        const success = await setEntityState(config, isInMeeting);
+        // A slow or failing target must not hold back the others
+        const results = await Promise.all(targets.map((target) => publishToTarget(config, target, status, previous)));
 
-        if (success === false) {
-            // Update badge to show error state
-            chrome.action.setBadgeText({ text: "!" });
-            chrome.action.setBadgeBackgroundColor({ color: "orange" });
-            console.error("Failed to update Home Assistant entity. Check your configuration and network connection.");
+        if (results.some((success) => !success)) {
+            console.error("Failed to update Home Assistant, the update will be retried. Check your configuration and network connection.");
         }
+
+        // Today's totals change when a meeting starts or ends
+        if (previous === null || isInCall(previous.state) !== isInCall(status.state)) {
+            await publishDailyTotalsToTargets();
+        }
+
+        // Show the pending updates in the badge and replay them until they are delivered
+        await scheduleOutboxReplay();
+        await scheduleHeartbeat();
+        await updateBadge();
     } catch (error) {
-        console.error("Error in updateMeetingStateIfNeeded:", error);
+        console.error("Error publishing the meeting status:", error);
         // Update badge to show error state
         chrome.action.setBadgeText({ text: "!" });
         chrome.action.setBadgeBackgroundColor({ color: "orange" });
     }
 }
 
+// Checks the automatic profile switching periodically while a profile uses it
+async function scheduleProfileSwitch() {
+    const { profiles } = await getProfiles();
+
+    if (!profiles.some((profile) => profile.auto_switch)) {
+        chrome.alarms.clear(PROFILE_ALARM);
+    } else if (!(await chrome.alarms.get(PROFILE_ALARM))) {
+        chrome.alarms.create(PROFILE_ALARM, { periodInMinutes: PROFILE_CHECK_INTERVAL });
+    }
+}
+
+// Activates the profile whose switching conditions match, once the meeting sent to Home Assistant is over
+async function autoSwitchProfile() {
+    await restoringState;
+    // The targets of the previous profile would never receive the end of the meeting
+    if (lastPublished !== null && lastPublished.state !== "idle") {
+        return;
+    }
+
+    try {
+        const { profiles, activeId } = await getProfiles();
+        const selected = await selectProfile(profiles);
+        const selectedId = selected?.id ?? null;
+
+        // Only switch when the matching profile changes, so a profile picked in the popup is kept until then
+        if (selectedId === lastAutoProfile) {
+            return;
+        }
+        lastAutoProfile = selectedId;
+
+        if (selectedId !== null && selectedId !== activeId) {
+            await switchProfile(selectedId);
+        }
+    } catch (error) {
+        console.error("Error switching the profile:", error);
+    }
+}
+
+// Makes another profile active from the popup or options page, sending the end of the meeting in
+// progress to the targets of the previous profile first, as they will not receive it afterwards
+async function activateProfile(id: string): Promise<Config> {
+    await restoringState;
+
+    const status = lastPublished;
+    if (status !== null && status.state !== "idle" && !(lastControl !== null && isPaused(lastControl))) {
+        const config = await loadConfig();
+        const ended: MeetingStatus = {
+            ...status,
+            state: "idle",
+            media: { microphone: false, camera: false, presenting: false },
+            meetingCode: null,
+            startedAt: null,
+            meetingTitle: null,
+        };
+
+        // Failed updates are queued and delivered to these targets after switching
+        const targets = config.targets.filter((target) => target.enabled);
+        await Promise.all(targets.map((target) => publishToTarget(config, target, ended, status)));
+    }
+
+    return await switchProfile(id);
+}
+
+// Sends the current meeting status to every enabled target again, e.g. after Home Assistant restarted
+async function resendState() {
+    await restoringState;
+    // Nothing was sent yet when the worker starts, and the first update sends everything
+    const status = lastPublished;
+    if (status === null) {
+        await updateMeetingStateIfNeeded();
+        return;
+    }
+
+    try {
+        const config = await loadConfig();
+        if (!validateConfig(config).isValid || isPaused(await getManualControl())) {
+            return;
+        }
+
+        // Without a previous status, every entity is published
+        const targets = config.targets.filter((target) => target.enabled);
+        await Promise.all(targets.map((target) => publishToTarget(config, target, status, null)));
+
+        await scheduleOutboxReplay();
+        await updateBadge();
+    } catch (error) {
+        console.error("Error resending the meeting state:", error);
+    }
+}
+
+// Runs the action of a keyboard shortcut or context menu entry
+async function runQuickAction(action: string) {
+    const control = await getManualControl();
+
+    if (action === "toggle-override") {
+        await applyManualControl(() => setOverride(control.override === true ? null : true));
+    } else if (action === "toggle-pause") {
+        await applyManualControl(() => pauseUpdates(isPaused(control) ? null : getPauseEnd("1h")));
+    } else if (action === "resend-state") {
+        await resendState();
+    }
+}
+
+// Adds the quick actions to the context menu of the extension icon
+function createContextMenus() {
+    chrome.contextMenus.removeAll(() => {
+        for (const [id, title] of Object.entries(QUICK_ACTION_TITLES)) {
+            chrome.contextMenus.create({ id, title, contexts: ["action"] });
+        }
+    });
+}
+
+// Writes the settings saved by a previous version back in the current schema version, for every profile
+async function upgradeSettings() {
+    try {
+        await upgradeConfig();
+        await upgradeProfiles();
+    } catch (error) {
+        // The settings are still upgraded in memory whenever they are loaded
+        console.error("Error upgrading the settings:", error);
+    }
+}
+
+// Restores the tab reports and meeting statuses of the previous service worker, unless newer ones were received since
+async function restoreWorkerState() {
+    try {
+        const state = await getWorkerState();
+        for (const [tabId, report] of Object.entries(state.tabReports)) {
+            if (!tabReports.has(Number(tabId))) {
+                tabReports.set(Number(tabId), report);
+            }
+        }
+        lastStatus = lastStatus ?? state.lastStatus;
+        lastPublished = lastPublished ?? state.lastPublished;
+    } catch (error) {
+        // The meeting state is then rebuilt from the tabs, as on browser start
+        console.error("Error restoring the meeting state:", error);
+    }
+}
+
+// Saves the tab reports and meeting statuses for the next service worker, once the previous ones were restored
+async function persistWorkerState() {
+    await restoringState;
+
+    const reports: Record<string, CallStatusMessage> = {};
+    tabReports.forEach((report, tabId) => {
+        reports[tabId] = report;
+    });
+
+    try {
+        await saveWorkerState({ tabReports: reports, lastStatus, lastPublished });
+    } catch (error) {
+        console.error("Error saving the meeting state:", error);
+    }
+}
+
 // Event listeners
-chrome.runtime.onInstalled.addListener(() => {
+chrome.runtime.onInstalled.addListener(async (details) => {
+    createContextMenus();
+    if (details.reason === "update") {
+        await upgradeSettings();
+    }
     updateMeetingStateIfNeeded();
 });
 
-chrome.tabs.onRemoved.addListener(() => {
+chrome.commands.onCommand.addListener((command) => {
+    runQuickAction(command);
+});
+
+chrome.contextMenus.onClicked.addListener((info) => {
+    runQuickAction(String(info.menuItemId));
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === OUTBOX_ALARM) {
+        replayOutbox();
+    } else if (alarm.name === RECONCILE_ALARM) {
+        reconcileTargets();
+    } else if (alarm.name === HEARTBEAT_ALARM) {
+        sendHeartbeats();
+    } else if (alarm.name === DAILY_TOTALS_ALARM || alarm.name === MIDNIGHT_ALARM) {
+        publishDailyTotalsToTargets();
+    } else if (alarm.name === PAUSE_ALARM) {
+        applyManualControl(() => pauseUpdates(null));
+    } else if (alarm.name === SCHEDULE_ALARM && lastStatus !== null && !(lastControl !== null && isPaused(lastControl))) {
+        publishStatus(lastStatus);
+    } else if (alarm.name === PROFILE_ALARM) {
+        autoSwitchProfile();
+    }
+});
+
+// Follow changes of the reconciliation, heartbeat, daily totals and schedule settings and of the targets
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "sync") {
+        scheduleReconciliation();
+        scheduleHeartbeat();
+        scheduleDailyTotals();
+        scheduleWorkingHours();
+        scheduleProfileSwitch();
+
+        // The targets of the new profile received nothing yet
+        if (hasActiveProfileChanged(changes) && lastStatus !== null && !(lastControl !== null && isPaused(lastControl))) {
+            lastPublished = null;
+            persistWorkerState();
+            publishStatus(lastStatus);
+        }
+    }
+});
+
+// Best effort "off" when the browser shuts down during a meeting. If the worker was only
+// stopped, the next heartbeat alarm restarts it, and as nothing counts as published any
+// more, the startup update turns the entity back on.
+chrome.runtime.onSuspend.addListener(() => {
+    const config = lastConfig;
+    if (config === null || !config.heartbeat_enabled || lastPublished === null || !isInCall(lastPublished.state)) {
+        return;
+    }
+
+    // Nothing is sent while paused
+    if (lastControl !== null && isPaused(lastControl)) {
+        return;
+    }
+
+    for (const target of config.targets.filter((item) => item.enabled)) {
+        setEntityState(config, target, false);
+    }
+    lastPublished = null;
+    persistWorkerState();
+});
+
+// Failure notification buttons: "Retry now" and "Open settings"
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+    const targetId = getNotifiedTargetId(notificationId);
+    if (targetId === null) {
+        return;
+    }
+
+    chrome.notifications.clear(notificationId);
+    if (buttonIndex === 0) {
+        retryTarget(targetId);
+    } else {
+        chrome.runtime.openOptionsPage();
+    }
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+    if (getNotifiedTargetId(notificationId) !== null) {
+        chrome.notifications.clear(notificationId);
+        chrome.runtime.openOptionsPage();
+    }
+});
+
+// Replay the pending updates as soon as the network is back
+self.addEventListener("online", () => {
+    replayOutbox();
+    autoSwitchProfile();
+});
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message?.type === "call-status") {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined) {
+            return;
+        }
+
+        // Reports are re-sent periodically, and mostly did not change
+        if (JSON.stringify(tabReports.get(tabId)) !== JSON.stringify(message)) {
+            tabReports.set(tabId, message as CallStatusMessage);
+            persistWorkerState();
+        }
+        updateMeetingStateIfNeeded();
+    } else if (message?.type === "get-meeting-state") {
+        getMeetingStatus().then((status) => sendResponse({
+            ...status,
+            isInMeeting: isInCall(status.state),
+            targets: Array.from(targetResults.values()),
+            control: lastControl,
+        }));
+        // Keep the message channel open for the async response
+        return true;
+    } else if (message?.type === "set-override") {
+        applyManualControl(() => setOverride(message.override ?? null)).then(sendResponse);
+        return true;
+    } else if (message?.type === "pause-updates") {
+        applyManualControl(() => pauseUpdates(message.pausedUntil ?? null)).then(sendResponse);
+        return true;
+    } else if (message?.type === "switch-profile") {
+        activateProfile(message.profileId).then(sendResponse, (error) => {
+            console.error("Error switching the profile:", error);
+            sendResponse(null);
+        });
+        return true;
+    }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+    if (tabReports.delete(tabId)) {
+        persistWorkerState();
+    }
     updateMeetingStateIfNeeded();
 });
 
 chrome.tabs.onUpdated.addListener(function (_, changeInfo) {
-    if (changeInfo.status === "complete") {
+    // Meet sets the meeting title after the page has loaded
+    if (changeInfo.status === "complete" || changeInfo.title !== undefined) {
         updateMeetingStateIfNeeded();
     }
 });
@@ -296,6 +1178,15 @@ function startKeepAlive() {
     }, 20000); // Every 20 seconds
 }
 
-// Start keep-alive and initial check
+// Restore the state of the previous worker, start keep-alive and initial check, deliver what a previous
+// worker left pending, read the entities back and set the midnight reset of today's totals
+restoringState = restoreWorkerState();
 startKeepAlive();
-updateMeetingStateIfNeeded();
\ No newline at end of file
+updateMeetingStateIfNeeded();
+replayOutbox();
+scheduleReconciliation();
+scheduleDailyTotals();
+schedulePauseEnd();
+scheduleWorkingHours();
+scheduleProfileSwitch();
+autoSwitchProfile();
\ No newline at end of file
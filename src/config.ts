@@ -6,15 +6,28 @@
  * It handles storing, loading, validating, and managing all configuration settings
  * that control how the extension communicates with Home Assistant.
  *
- * The configuration supports two integration methods:
+ * Updates are delivered to a list of named targets (e.g. a home and an office Home
+ * Assistant instance), each with its own method and credentials. Rules attaching
+ * extra service calls to meeting events are stored alongside. Every target
+ * supports four integration methods:
  * - API: Direct REST API calls to Home Assistant
  * - Webhook: HTTP webhook calls to Home Assistant
+ * - Event: Custom Home Assistant events fired through the REST API
+ * - MQTT: Messages published to an MQTT broker over WebSocket, with MQTT discovery
  *
  * The configuration also supports internationalization with language selection.
  *
+ * The settings of the active profile are stored at the top level of `chrome.storage.sync`;
+ * the other profiles are kept aside by the profiles module. The stored settings carry a
+ * schema version, and older shapes are upgraded by the migrations module when loaded.
+ *
  * METHODS:
- * - loadConfig(): Loads configuration from Chrome storage
+ * - toConfig(): Builds a configuration from stored settings, upgrading them and filling in missing ones
+ * - loadConfig(): Loads the configuration of the active profile from Chrome storage
+ * - upgradeConfig(): Writes the stored settings of the active profile back in the current schema version
  * - saveConfig(): Saves configuration to Chrome storage
+ * - createTarget(): Creates a new target with default values
+ * - validateTarget(): Validates a single target
  * - validateConfig(): Validates configuration completeness and format
  *
  * TYPES:
@@ -23,62 +36,405 @@
 
 /**
  * TYPES:
- * - UpdateMethod: Union type for "api" | "webhook"
+ * - UpdateMethod: Union type for "api" | "webhook" | "event" | "mqtt"
+ * - WebhookMethod: Union type for the webhook HTTP methods
+ * - ReconcilePolicy: What to do when Home Assistant disagrees with the meeting state
+ * - MeetingAttribute: Meeting detail published as an attribute of the meeting entity
+ * - FailureReason: Why an update could not be delivered to a target
+ * - Target: Home Assistant target receiving the updates
  * - Config: Main configuration interface
  * - defaultConfig: Default configuration values
  */
 
 // import { SupportedLanguage, getBrowserLanguage, t } from "./translations";
+import { MeetingState, MEETING_STATES } from "./meet";
+import { CONFIG_VERSION, getSchemaVersion, LEGACY_TARGET_KEYS, migrateConfig, StoredConfig } from "./migrations";
+import { Rule, validateRule } from "./rules";
+import { createSchedule, Schedule, validateSchedule } from "./schedule";
 
 /**
  * Available update methods for Home Assistant integration
  */
-export type UpdateMethod = "api" | "webhook";
+export type UpdateMethod = "api" | "webhook" | "event" | "mqtt";
 
 /**
- * Configuration interface for the extension
+ * HTTP methods available for webhooks
  */
-export interface Config {
-    /** Home Assistant base URL (for API method) */
+export type WebhookMethod = "POST" | "PUT" | "PATCH" | "GET";
+
+/**
+ * All webhook HTTP methods, in display order
+ */
+export const WEBHOOK_METHODS: WebhookMethod[] = ["POST", "PUT", "PATCH", "GET"];
+
+/**
+ * What to do when the meeting entity in Home Assistant disagrees with the meeting state:
+ * - off: Never read the entity back
+ * - always: Correct the entity
+ * - in_meeting: Correct the entity only while in a meeting, warn otherwise
+ * - warn: Only show a warning in the popup
+ */
+export type ReconcilePolicy = "off" | "always" | "in_meeting" | "warn";
+
+/**
+ * All reconciliation policies, in display order
+ */
+export const RECONCILE_POLICIES: ReconcilePolicy[] = ["off", "always", "in_meeting", "warn"];
+
+/**
+ * Meeting details that can be published as attributes of the meeting entity (for API method)
+ */
+export type MeetingAttribute = "meeting_code" | "meeting_title" | "started_at" | "duration" | "tab_count" | "source_device";
+
+/**
+ * All meeting attributes, in display order
+ */
+export const MEETING_ATTRIBUTES: MeetingAttribute[] = [
+    "meeting_code",
+    "meeting_title",
+    "started_at",
+    "duration",
+    "tab_count",
+    "source_device",
+];
+
+/**
+ * Why an update could not be delivered to a target:
+ * - auth: The token, username or password was rejected
+ * - not_found: The entity, service or webhook does not exist
+ * - unreachable: Home Assistant or the MQTT broker could not be reached
+ * - error: Any other error, e.g. an unsupported entity domain
+ */
+export type FailureReason = "auth" | "not_found" | "unreachable" | "error";
+
+/**
+ * All failure reasons, in display order
+ */
+export const FAILURE_REASONS: FailureReason[] = ["auth", "not_found", "unreachable", "error"];
+
+/**
+ * Home Assistant target receiving the meeting updates
+ */
+export interface Target {
+    /** Unique identifier of the target */
+    id: string;
+    /** Name shown in the popup and options page, e.g. "Home" or "Office" */
+    name: string;
+    /** Whether updates are delivered to this target */
+    enabled: boolean;
+    /** Method to use for updating Home Assistant */
+    method: UpdateMethod;
+    /** Home Assistant base URL (for API and event methods) */
     host: string;
-    /** Authorization token (for API method) */
+    /** Authorization token (for API and event methods) */
     token: string;
     /** Entity ID to update in Home Assistant */
     entity_id: string;
-    /** Method to use for updating Home Assistant */
-    method: UpdateMethod;
-    /** Webhook URL (for webhook method) */
+    /** Optional entity ID turned on while the microphone is live (for API method) */
+    microphone_entity_id: string;
+    /** Optional entity ID turned on while the camera is on (for API method) */
+    camera_entity_id: string;
+    /** Optional entity ID turned on while presenting (for API method) */
+    presenting_entity_id: string;
+    /** Optional input_select or input_text entity receiving the detailed meeting state (for API method) */
+    meeting_state_entity_id: string;
+    /** Optional sensor receiving the minutes spent in meetings today (for API method) */
+    minutes_today_entity_id: string;
+    /** Optional sensor receiving the number of meetings today (for API method) */
+    meetings_today_entity_id: string;
+    /** Webhook URL, may contain placeholders (for webhook method) */
     webhook_url: string;
+    /** HTTP method of the webhook request (for webhook method) */
+    webhook_method: WebhookMethod;
+    /** Extra request headers, one "Name: value" per line (for webhook method) */
+    webhook_headers: string;
+    /** Request body with {{placeholders}}, or empty for the default JSON payload (for webhook method) */
+    webhook_body_template: string;
+    /** Prefix of the fired event types, e.g. "google_meet" fires "google_meet_started" (for event method) */
+    event_prefix: string;
+    /** Keep a WebSocket connection open during meetings instead of REST requests (for API and event methods) */
+    use_websocket: boolean;
+    /** WebSocket URL of the MQTT broker, e.g. ws://mosquitto.local:9001 (for MQTT method) */
+    mqtt_url: string;
+    /** Optional MQTT username (for MQTT method) */
+    mqtt_username: string;
+    /** Optional MQTT password (for MQTT method) */
+    mqtt_password: string;
+    /** Topic receiving "ON"/"OFF"; attributes go to <topic>/attributes (for MQTT method) */
+    mqtt_state_topic: string;
+    /** Topic receiving "online"/"offline", with "offline" as Last Will (for MQTT method) */
+    mqtt_availability_topic: string;
+    /** Home Assistant MQTT discovery prefix (for MQTT method) */
+    mqtt_discovery_prefix: string;
+}
+
+/**
+ * Configuration interface for the extension
+ */
+export interface Config {
+    /** Home Assistant targets receiving the updates */
+    targets: Target[];
+    /** Rules running Home Assistant service calls on meeting events */
+    rules: Rule[];
+    /** Home Assistant option value written for each internal meeting state */
+    meeting_state_options: Record<MeetingState, string>;
+    /** Meeting details published as attributes of the meeting entity; none by default for privacy */
+    meeting_attributes: MeetingAttribute[];
+    /** Brightness in percent used when turning on light entities */
+    light_brightness_pct: number;
+    /** Optional "#rrggbb" color used when turning on light entities */
+    light_color: string;
+    /** Name identifying this computer in event payloads (defaults to the platform name) */
+    device_name: string;
+    /** Name identifying the user in webhook payloads */
+    user_name: string;
+    /** What to do when the meeting entity of an API target was changed in Home Assistant */
+    reconcile_policy: ReconcilePolicy;
+    /** Minutes between two reads of the meeting entities */
+    reconcile_interval: number;
+    /** Number of days meetings are kept in the local history */
+    history_retention_days: number;
+    /** Whether heartbeats are sent during meetings, so Home Assistant notices when the browser is gone */
+    heartbeat_enabled: boolean;
+    /** Minutes between two heartbeats */
+    heartbeat_interval: number;
+    /** Failure reasons shown as desktop notifications when an update fails after all retries */
+    failure_notifications: FailureReason[];
+    /** Working hours outside of which meetings are not sent to Home Assistant */
+    schedule: Schedule;
     /** Selected language for the extension UI */
     language: string;
+    /** Schema version of the stored settings, upgraded by the migrations */
+    schema_version: number;
+}
+
+/**
+ * Creates a new target with default values
+ * @param name - Name of the target
+ * @param id - Identifier of the target (default: a new unique identifier)
+ * @returns The new target
+ */
+export function createTarget(name: string, id: string = Date.now().toString(36) + Math.random().toString(36).slice(2, 8)): Target {
+    return {
+        id,
+        name,
+        enabled: true,
+        method: "api",
+        host: "",
+        token: "",
+        entity_id: "input_boolean.in_meeting",
+        microphone_entity_id: "",
+        camera_entity_id: "",
+        presenting_entity_id: "",
+        meeting_state_entity_id: "",
+        minutes_today_entity_id: "",
+        meetings_today_entity_id: "",
+        webhook_url: "",
+        webhook_method: "POST",
+        webhook_headers: "",
+        webhook_body_template: "",
+        event_prefix: "google_meet",
+        use_websocket: true,
+        mqtt_url: "",
+        mqtt_username: "",
+        mqtt_password: "",
+        mqtt_state_topic: "google_meet/state",
+        mqtt_availability_topic: "google_meet/availability",
+        mqtt_discovery_prefix: "homeassistant",
+    };
 }
 
 /**
  * Default configuration values
  */
 export const defaultConfig: Config = {
-    host: "",
-    token: "",
-    entity_id: "input_boolean.in_meeting",
-    method: "api",
-    webhook_url: "",
+    targets: [createTarget("Home Assistant", "default")],
+    rules: [],
+    meeting_state_options: {
+        idle: "Idle",
+        lobby: "Lobby",
+        in_call: "In call",
+        presenting: "Presenting",
+        ended: "Ended",
+    },
+    meeting_attributes: [],
+    light_brightness_pct: 100,
+    light_color: "",
+    device_name: "",
+    user_name: "",
+    reconcile_policy: "warn",
+    reconcile_interval: 5,
+    history_retention_days: 90,
+    heartbeat_enabled: true,
+    heartbeat_interval: 1,
+    failure_notifications: ["auth", "not_found", "unreachable", "error"],
+    schedule: createSchedule(),
     language: "en",
+    schema_version: CONFIG_VERSION,
 };
 
 /**
- * Loads the configuration from Chrome storage
+ * Sets one setting of a configuration from stored settings
+ * @param config - Configuration to change
+ * @param key - Setting to set
+ * @param value - Stored value, in the shape of the current schema version
+ */
+function assignSetting<K extends keyof Config>(config: Config, key: K, value: unknown) {
+    config[key] = value as Config[K];
+}
+
+/**
+ * Builds a configuration from stored settings, filling in the missing ones with defaults
+ *
+ * Settings saved with an older schema version are upgraded first.
+ *
+ * @param stored - Stored settings, e.g. the whole of chrome.storage.sync or a saved profile
+ * @returns The configuration
+ */
+export function toConfig(stored: StoredConfig): Config {
+    const migrated = migrateConfig(stored);
+    const config = { ...defaultConfig };
+
+    for (const key of Object.keys(defaultConfig) as Array<keyof Config>) {
+        if (migrated[key] !== undefined) {
+            assignSetting(config, key, migrated[key]);
+        }
+    }
+
+    return config;
+}
+
+/**
+ * Loads the configuration of the active profile from Chrome storage
  * @returns Promise that resolves to the loaded configuration
  */
 export async function loadConfig(): Promise<Config> {
-    return (await chrome.storage.sync.get(defaultConfig)) as Config;
+    return toConfig(await chrome.storage.sync.get(null));
 }
 
 /**
- * Saves the configuration to Chrome storage
+ * Writes the stored settings of the active profile back in the current schema version,
+ * removing the settings dropped by the migrations
+ * @returns Promise that resolves to the schema version the settings had
+ */
+export async function upgradeConfig(): Promise<number> {
+    const stored = await chrome.storage.sync.get(null);
+    const migrated = migrateConfig(stored);
+
+    // Only the changed settings are written, as chrome.storage.sync limits the writes
+    const changes: StoredConfig = {};
+    for (const key of Object.keys(migrated)) {
+        if (JSON.stringify(migrated[key]) !== JSON.stringify(stored[key])) {
+            changes[key] = migrated[key];
+        }
+    }
+
+    if (Object.keys(changes).length > 0) {
+        await chrome.storage.sync.set(changes);
+    }
+    await chrome.storage.sync.remove(Object.keys(stored).filter((key) => !(key in migrated)));
+
+    return getSchemaVersion(stored);
+}
+
+/**
+ * Saves the configuration of the active profile to Chrome storage
  * @param config - Configuration object to save
  */
 export async function saveConfig(config: Config) {
     await chrome.storage.sync.set(config);
+    // Drop settings that now live in the targets
+    await chrome.storage.sync.remove(LEGACY_TARGET_KEYS);
+}
+
+/**
+ * Checks whether a target has no connection details at all
+ * @param target - Target to check
+ * @returns True if the target has not been configured yet
+ */
+function isEmptyTarget(target: Target): boolean {
+    return !target.host && !target.token && !target.webhook_url && !target.mqtt_url;
+}
+
+/**
+ * Validates a single target
+ * @param target - Target to validate
+ * @returns Object containing validation result and error messages
+ */
+export function validateTarget(target: Target): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!target.name || target.name.trim() === "") {
+        errors.push('Target name is required');
+    }
+
+    if (target.method === "api" || target.method === "event") {
+        if (!target.host || target.host.trim() === "") {
+            errors.push('Home Assistant URL is required');
+        } else if (!target.host.startsWith("http://") && !target.host.startsWith("https://")) {
+            errors.push('Home Assistant URL must start with http:// or https://');
+        }
+
+        if (!target.token || target.token.trim() === "" || target.token === "xxxxxxx") {
+            errors.push('Authorization token is required');
+        }
+    }
+
+    if (target.method === "api") {
+        if (!target.entity_id || target.entity_id.trim() === "") {
+            errors.push('Entity ID is required');
+        }
+
+        const stateEntityId = target.meeting_state_entity_id.trim();
+        if (stateEntityId !== "" && !stateEntityId.startsWith("input_select.") && !stateEntityId.startsWith("input_text.")) {
+            errors.push('Meeting state entity must be an input_select or input_text');
+        }
+
+        for (const entityId of [target.minutes_today_entity_id.trim(), target.meetings_today_entity_id.trim()]) {
+            if (entityId !== "" && !/^sensor\.[a-z0-9_]+$/.test(entityId)) {
+                errors.push(`Daily statistics entity "${entityId}" must be a sensor, e.g. sensor.meet_minutes_today`);
+            }
+        }
+    } else if (target.method === "webhook") {
+        if (!target.webhook_url || target.webhook_url.trim() === "") {
+            errors.push('Webhook URL is required');
+        }
+
+        if (!WEBHOOK_METHODS.includes(target.webhook_method)) {
+            errors.push(`Unsupported webhook method "${target.webhook_method}"`);
+        }
+
+        const invalidHeader = target.webhook_headers
+            .split("\n")
+            .find((line) => line.trim() !== "" && !/^[A-Za-z0-9!#$%&'*+.^_`|~-]+:/.test(line.trim()));
+        if (invalidHeader !== undefined) {
+            errors.push(`Invalid webhook header "${invalidHeader.trim()}", expected "Name: value"`);
+        }
+
+        if (target.webhook_method === "GET" && target.webhook_body_template.trim() !== "") {
+            errors.push('GET webhooks cannot have a body');
+        }
+    } else if (target.method === "mqtt") {
+        if (!target.mqtt_url || target.mqtt_url.trim() === "") {
+            errors.push('MQTT broker URL is required');
+        } else if (!target.mqtt_url.startsWith("ws://") && !target.mqtt_url.startsWith("wss://")) {
+            errors.push('MQTT broker URL must start with ws:// or wss://');
+        }
+
+        const topics = [target.mqtt_state_topic, target.mqtt_availability_topic, target.mqtt_discovery_prefix];
+        if (topics.some((topic) => topic.trim() === "" || /[+#]/.test(topic))) {
+            errors.push('MQTT topics are required and cannot contain wildcards');
+        }
+    } else if (target.method === "event") {
+        if (!/^[a-z0-9_]+$/.test(target.event_prefix)) {
+            errors.push('Event prefix may only contain lowercase letters, digits and underscores');
+        }
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors
+    };
 }
 
 /**
@@ -90,7 +446,7 @@ export function validateConfig(config: Config): { isValid: boolean; errors: stri
     const errors: string[] = [];
 
     // Check if this is a completely empty configuration (first time setup)
-    const isEmptyConfig = !config.host && !config.token && !config.webhook_url;
+    const isEmptyConfig = config.targets.every(isEmptyTarget);
     if (isEmptyConfig) {
         return {
             isValid: false,
@@ -98,24 +454,60 @@ export function validateConfig(config: Config): { isValid: boolean; errors: stri
         };
     }
 
-    if (config.method === "api") {
-        if (!config.host || config.host.trim() === "") {
-            errors.push('Home Assistant URL is required');
-        } else if (!config.host.startsWith("http://") && !config.host.startsWith("https://")) {
-            errors.push('Home Assistant URL must start with http:// or https://');
-        }
+    if (!config.targets.some((target) => target.enabled)) {
+        errors.push('At least one target must be enabled');
+    }
 
-        if (!config.entity_id || config.entity_id.trim() === "") {
-            errors.push('Entity ID is required');
+    for (const target of config.targets) {
+        if (target.enabled) {
+            const validation = validateTarget(target);
+            errors.push(...validation.errors.map((error) => `${target.name || 'Unnamed target'}: ${error}`));
         }
+    }
 
-        if (!config.token || config.token.trim() === "" || config.token === "xxxxxxx") {
-            errors.push('Authorization token is required');
-        }
-    } else if (config.method === "webhook") {
-        if (!config.webhook_url || config.webhook_url.trim() === "") {
-            errors.push('Webhook URL is required');
-        }
+    if (!Number.isInteger(config.light_brightness_pct) || config.light_brightness_pct < 1 || config.light_brightness_pct > 100) {
+        errors.push('Light brightness must be between 1 and 100');
+    }
+
+    if (config.light_color && !/^#[0-9a-f]{6}$/i.test(config.light_color)) {
+        errors.push('Light color must be a hex color like #ff0000');
+    }
+
+    const unknownAttribute = config.meeting_attributes.find((attribute) => !MEETING_ATTRIBUTES.includes(attribute));
+    if (unknownAttribute !== undefined) {
+        errors.push(`Unknown meeting attribute "${unknownAttribute}"`);
+    }
+
+    if (!RECONCILE_POLICIES.includes(config.reconcile_policy)) {
+        errors.push(`Unknown reconciliation policy "${config.reconcile_policy}"`);
+    }
+
+    if (!Number.isInteger(config.reconcile_interval) || config.reconcile_interval < 1 || config.reconcile_interval > 60) {
+        errors.push('Reconciliation interval must be between 1 and 60 minutes');
+    }
+
+    if (!Number.isInteger(config.history_retention_days) || config.history_retention_days < 1 || config.history_retention_days > 3650) {
+        errors.push('History retention must be between 1 and 3650 days');
+    }
+
+    if (!Number.isInteger(config.heartbeat_interval) || config.heartbeat_interval < 1 || config.heartbeat_interval > 60) {
+        errors.push('Heartbeat interval must be between 1 and 60 minutes');
+    }
+
+    const unknownReason = config.failure_notifications.find((reason) => !FAILURE_REASONS.includes(reason));
+    if (unknownReason !== undefined) {
+        errors.push(`Unknown notification reason "${unknownReason}"`);
+    }
+
+    errors.push(...validateSchedule(config.schedule).errors);
+
+    if (MEETING_STATES.some((state) => !config.meeting_state_options[state]?.trim())) {
+        errors.push('Every meeting state needs an option value');
+    }
+
+    for (const rule of config.rules) {
+        const validation = validateRule(rule, config.targets);
+        errors.push(...validation.errors.map((error) => `${rule.name || 'Unnamed rule'}: ${error}`));
     }
 
     return {
@@ -0,0 +1,111 @@
+/**
+ * Content script for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This script runs inside Google Meet tabs and reports the real call lifecycle
+ * (lobby, joining, in call, left) to the background worker, so that sitting in the
+ * pre-join green room or on the "You left the meeting" screen is not treated as
+ * being in a meeting. It also reports whether the microphone and camera are on and
+ * whether the user is presenting.
+ *
+ * The script watches the page for DOM changes and sends a message whenever the
+ * detected call status changes. The current status is also re-sent periodically so
+ * the background worker can rebuild its state after being suspended by Chrome, and
+ * sent when the background worker asks for it.
+ *
+ * The script runs as soon as the page starts loading and reports the lobby until the
+ * page shows something else, so the background worker never mistakes a page that is
+ * still rendering for a call.
+ *
+ * METHODS:
+ * - detectCallStatus(): Detects the current call status of the page
+ * - reportCallStatus(): Detects the current call status and sends it to the background worker
+ * - scheduleReport(): Debounces detection while the page is mutating
+ */
+
+import { CallStatusMessage, detectCallPhase, detectMediaState } from "./meet";
+
+// How long to wait for DOM mutations to settle before re-detecting the call status
+const DETECTION_DELAY = 500;
+
+// How often to re-send the current status so a restarted background worker catches up
+const RESYNC_INTERVAL = 15000;
+
+let lastStatus: CallStatusMessage | null = null;
+let pendingReport: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Sends a call status message to the background worker
+ * @param message - Call status to report
+ */
+function sendCallStatus(message: CallStatusMessage) {
+    chrome.runtime.sendMessage(message, () => {
+        // The background worker may be restarting; the next resync will catch up
+        void chrome.runtime.lastError;
+    });
+}
+
+/**
+ * Detects the current call status of the page
+ * @returns The call status; the last detected phase while the page is in an unknown state,
+ * or the lobby until a phase was detected
+ */
+function detectCallStatus(): CallStatusMessage {
+    const phase = detectCallPhase(document) ?? lastStatus?.phase ?? "lobby";
+    return { type: "call-status", phase, ...detectMediaState(document) };
+}
+
+/**
+ * Detects the current call status and reports it if it changed
+ * @param force - Report the status even if it did not change
+ */
+function reportCallStatus(force: boolean = false) {
+    const status = detectCallStatus();
+    if (!force && JSON.stringify(status) === JSON.stringify(lastStatus)) {
+        return;
+    }
+
+    lastStatus = status;
+    sendCallStatus(status);
+}
+
+/**
+ * Schedules a call status detection once DOM mutations settle
+ */
+function scheduleReport() {
+    if (pendingReport) {
+        return;
+    }
+
+    pendingReport = setTimeout(() => {
+        pendingReport = null;
+        reportCallStatus();
+    }, DETECTION_DELAY);
+}
+
+// The background worker asks the tabs that have not reported yet
+chrome.runtime.onMessage.addListener((message, _, sendResponse) => {
+    if (message?.type === "get-call-status") {
+        lastStatus = detectCallStatus();
+        sendResponse(lastStatus);
+    }
+});
+
+new MutationObserver(scheduleReport).observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["aria-label", "jsname", "data-is-muted"],
+});
+
+setInterval(() => reportCallStatus(true), RESYNC_INTERVAL);
+
+// Closing or navigating away from the tab always ends the call
+window.addEventListener("pagehide", () => {
+    if (lastStatus !== null && lastStatus.phase !== "left") {
+        lastStatus = { ...lastStatus, phase: "left" };
+        sendCallStatus(lastStatus);
+    }
+});
+
+reportCallStatus();
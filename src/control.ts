@@ -0,0 +1,101 @@
+/**
+ * Manual control of the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * The meeting state normally follows the open Google Meet tabs. This module keeps the
+ * controls set from the popup in `chrome.storage.local`, so the background worker honors
+ * them even after being restarted:
+ * - Manual override: the meeting entity is forced on (e.g. during a phone call or a call
+ *   in another app) or off, whatever the tabs show, until set back to automatic
+ * - Pause: nothing is sent to Home Assistant for 30 minutes, an hour or until tomorrow;
+ *   the changes made in the meantime are published when the pause ends
+ *
+ * Overriding and pausing exclude each other: setting one clears the other.
+ *
+ * METHODS:
+ * - getManualControl(): Gets the current manual control
+ * - setOverride(): Forces the meeting entity on or off, or sets it back to automatic
+ * - pauseUpdates(): Pauses the updates until a given time, or resumes them
+ * - isPaused(): Checks if the updates are paused
+ * - getPauseEnd(): Computes when a pause of a given duration ends
+ *
+ * INTERFACES:
+ * - ManualControl: Controls set from the popup
+ * - PauseDuration: Durations offered in the popup
+ */
+
+// Key of the manual control in chrome.storage.local
+const CONTROL_KEY = "manual_control";
+
+/**
+ * Controls set from the popup
+ */
+export interface ManualControl {
+    /** Forced value of the meeting entity, or null to follow the Meet tabs */
+    override: boolean | null;
+    /** When the updates resume (milliseconds since epoch), or null if they are not paused */
+    pausedUntil: number | null;
+}
+
+/**
+ * Durations offered in the popup: 30 minutes, an hour, or until local midnight
+ */
+export type PauseDuration = "30m" | "1h" | "tomorrow";
+
+/**
+ * Gets the current manual control
+ * @returns Promise that resolves to the control, automatic and not paused by default
+ */
+export async function getManualControl(): Promise<ManualControl> {
+    const stored = await chrome.storage.local.get(CONTROL_KEY);
+    return stored[CONTROL_KEY] ?? { override: null, pausedUntil: null };
+}
+
+/**
+ * Forces the meeting entity on or off, or sets it back to automatic, ending any pause
+ * @param override - Forced value, or null to follow the Meet tabs again
+ * @returns Promise that resolves to the new control
+ */
+export async function setOverride(override: boolean | null): Promise<ManualControl> {
+    const control: ManualControl = { override, pausedUntil: null };
+    await chrome.storage.local.set({ [CONTROL_KEY]: control });
+    return control;
+}
+
+/**
+ * Pauses the updates until a given time, or resumes them, ending any override
+ * @param pausedUntil - When the updates resume (milliseconds since epoch), or null to resume now
+ * @returns Promise that resolves to the new control
+ */
+export async function pauseUpdates(pausedUntil: number | null): Promise<ManualControl> {
+    const control: ManualControl = { override: null, pausedUntil };
+    await chrome.storage.local.set({ [CONTROL_KEY]: control });
+    return control;
+}
+
+/**
+ * Checks if the updates are paused
+ * @param control - Current manual control
+ * @param now - Current time (milliseconds since epoch, default: now)
+ * @returns True if the pause has not ended yet
+ */
+export function isPaused(control: ManualControl, now: number = Date.now()): boolean {
+    return control.pausedUntil !== null && control.pausedUntil > now;
+}
+
+/**
+ * Computes when a pause of a given duration ends
+ * @param duration - Duration picked in the popup
+ * @param now - Current date (default: now)
+ * @returns When the updates resume (milliseconds since epoch)
+ */
+export function getPauseEnd(duration: PauseDuration, now: Date = new Date()): number {
+    switch (duration) {
+        case "30m":
+            return now.getTime() + 30 * 60 * 1000;
+        case "1h":
+            return now.getTime() + 60 * 60 * 1000;
+        case "tomorrow":
+            return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+    }
+}
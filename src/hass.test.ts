@@ -0,0 +1,44 @@
+import { createTarget, defaultConfig } from "./config";
+import { getMqttDiscovery } from "./hass";
+
+describe("getMqttDiscovery", () => {
+    const config = { ...defaultConfig, device_name: "Laptop" };
+    const target = {
+        ...createTarget("Broker", "office"),
+        method: "mqtt" as const,
+        mqtt_state_topic: " meet/state ",
+        mqtt_availability_topic: "meet/availability",
+        mqtt_discovery_prefix: "homeassistant",
+    };
+
+    it("publishes the config of binary_sensor.google_meet under the discovery prefix", () => {
+        expect(getMqttDiscovery(config, target).topic).toBe("homeassistant/binary_sensor/google_meet_office/config");
+    });
+
+    it("points the sensor at the state, attributes and availability topics", () => {
+        expect(getMqttDiscovery(config, target).payload).toEqual({
+            name: "Google Meet",
+            object_id: "google_meet",
+            unique_id: "google_meet_office",
+            icon: "mdi:video",
+            state_topic: "meet/state",
+            payload_on: "ON",
+            payload_off: "OFF",
+            json_attributes_topic: "meet/state/attributes",
+            availability_topic: "meet/availability",
+            payload_available: "online",
+            payload_not_available: "offline",
+            device: {
+                identifiers: ["google_meet_office"],
+                name: "Google Meet (Laptop)",
+                manufacturer: "Google Meet ↔ Home Assistant",
+            },
+        });
+    });
+
+    it("gives each target its own sensor", () => {
+        const other = getMqttDiscovery(config, { ...target, id: "home" });
+        expect(other.topic).toBe("homeassistant/binary_sensor/google_meet_home/config");
+        expect(other.payload.unique_id).toBe("google_meet_home");
+    });
+});
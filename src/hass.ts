@@ -6,73 +6,488 @@
  * It handles both API-based and webhook-based integrations, with robust error handling,
  * retry mechanisms, and fallback strategies to ensure reliable entity state updates.
  *
- * The module supports two integration methods:
+ * The module supports four integration methods:
  * - API: Direct REST API calls using Home Assistant's service endpoints
  * - Webhook: HTTP webhook calls for simpler integration
+ * - Event: Custom events fired through Home Assistant's event endpoint
+ * - MQTT: Retained messages published to an MQTT broker over WebSocket, with MQTT discovery
  *
  * FEATURES:
- * - Network connectivity checking before making requests
+ * - Delivery to several targets, each with its own method, credentials and WebSocket connection
+ * - Persistent WebSocket connection used instead of REST requests while a meeting is active
+ * - Cached reachability check of the target before making requests
  * - Exponential backoff retry mechanism for failed requests
- * - Fallback from service calls to direct state setting for API method
- * - Connection testing for both API and webhook methods
+ * - Service selection based on the entity domain (input_boolean, switch, light, script,
+ *   scene, input_select, input_text) for API method
+ * - Webhook method, headers and body template with {{placeholders}}
+ * - Opt-in meeting details (code, title, start, duration, tabs, device) as attributes of the meeting entity
+ * - Daily meeting minutes and count sensors with long-term statistics
+ * - Reading the meeting entity back, to notice changes made in Home Assistant
+ * - Heartbeats during meetings, with a generated automation turning the entity off when they stop
+ * - MQTT availability through a retained Last Will message
+ * - Connection testing for API, webhook, event and MQTT methods
+ * - Request log of every HTTP, WebSocket and MQTT request, shown in the diagnostics view
  * - Comprehensive error handling and logging
  *
  * METHODS:
+ * - withRequestLog(): Runs a request to a target and adds it to the request log
+ * - hassFetch(): Sends an HTTP request to a target and adds it to the request log
+ * - publishMqtt(): Publishes an MQTT message and adds it to the request log
+ * - openWebSocket(): Opens the persistent WebSocket connection to a target
+ * - closeWebSocket(): Closes the persistent WebSocket connection of one or all targets
+ * - closeMqtt(): Closes the MQTT connection of one or all targets
+ * - getMqttDiscovery(): Builds the MQTT discovery config of binary_sensor.google_meet
+ * - publishMqttStatus(): Publishes the meeting state and attributes via MQTT
  * - setEntityState(): Main function to update HA entity state (supports both API and webhook)
+ * - publishMeetingStatus(): Publishes meeting state, microphone, camera and presenting changes to HA
  * - testConnection(): Tests the connection to Home Assistant
- * - checkNetworkConnectivity(): Checks if network is available
+ * - checkTargetReachable(): Checks if a target is reachable (cached)
+ * - checkHostReachable(): Checks if a Home Assistant URL answers (cached)
+ * - forgetReachability(): Forgets the cached reachability of a target
  * - retryWithBackoff(): Implements exponential backoff retry logic
+ * - deliverUpdate(): Runs an update with reachability check and retries
+ * - getFailureReason(): Categorizes the error of a failed update
+ * - getDeliveryFailure(): Gets why the last update to a target failed
+ * - getEntityDomain(): Gets the domain of an entity ID
+ * - canSetEntityAttributes(): Checks if attributes can be added to an entity
+ * - getServiceCall(): Picks the service call for an entity based on its domain
+ * - callService(): Calls a Home Assistant service via REST API
+ * - callServices(): Calls a list of services in order, with reachability check and retries
  * - setEntityStateAPI(): Updates entity via Home Assistant REST API
+ * - renderWebhookRequest(): Builds the webhook request from its method, headers and body template
+ * - getWebhookOrigins(): Gets the host permissions the webhooks of the enabled targets need
  * - setEntityStateWebhook(): Updates entity via webhook
+ * - getDeviceName(): Gets the name identifying this computer in payloads
+ * - fireEvent(): Fires a custom event via Home Assistant REST API
+ * - fireMeetingEvent(): Fires the started/ended/updated event for a meeting status change
+ * - setMediaEntitiesAPI(): Updates the microphone, camera and presenting entities via REST API
+ * - setMeetingStateAPI(): Selects the meeting state option via REST API
+ * - readMeetingEntity(): Reads the meeting entity back from Home Assistant
+ * - setEntityAttributes(): Adds attributes to an entity, keeping its state and other attributes
+ * - publishDailyTotals(): Publishes the time spent in meetings today to sensors
+ * - getMeetingAttributes(): Gets the meeting details published as attributes of the meeting entity
+ * - sendHeartbeat(): Tells a target the browser is still in the meeting
+ * - getHeartbeatAutomation(): Builds the automation turning the meeting entity off when heartbeats stop
  * - testConnectionAPI(): Tests API connection
  * - testConnectionWebhook(): Tests webhook connection
+ * - testConnectionEvent(): Tests event firing
+ * - testConnectionMqtt(): Tests MQTT publishing
  *
  * INTERFACES:
+ * - TargetResult: Result of the last update delivered to a target
+ * - EntityValue: State of the meeting entity read back from Home Assistant
+ * - WebhookRequest: HTTP request sent to a webhook
  * - TestResult: Result object for connection tests
+ * - ServiceCall: Home Assistant service and data to call
  *
  * ERROR HANDLING:
- * - Network connectivity failures
+ * - Unreachable targets
  * - HTTP errors (401, 404, etc.)
- * - Service call failures with fallback to direct state setting
+ * - Service call failures and unsupported entity domains
  * - Retry logic with exponential backoff
  */
 
-import { Config } from "./config";
+import { Config, FailureReason, MeetingAttribute, Target } from "./config";
+import { DailyTotals } from "./history";
+import { MediaState, MeetingState, MeetingStatus, isInCall } from "./meet";
+import { createMqttClient, MqttClient, MqttMessage } from "./mqtt";
+import { logRequest } from "./requestlog";
+import { createWebSocketClient, getWebSocketUrl, HassState, HassWebSocketClient } from "./websocket";
 // import { t } from "./translations";
 
+// Time to wait for the WebSocket connection before falling back to REST
+const WEBSOCKET_CONNECT_TIMEOUT = 5000;
+
+// Persistent WebSocket connections used instead of REST requests while they are open, keyed by target ID
+const webSocketClients = new Map<string, { client: HassWebSocketClient; key: string }>();
+
+// Time to wait for a target to answer the reachability check
+const REACHABILITY_TIMEOUT = 3000;
+
+// How long a reachability check result is reused
+const REACHABILITY_CACHE_TTL = 30000;
+
+// Result of the last reachability checks, keyed by probed URL
+const reachabilityCache = new Map<string, { reachable: boolean; checkedAt: number }>();
+
+// Time to wait for the MQTT broker to accept the connection
+const MQTT_CONNECT_TIMEOUT = 5000;
+
+// Time to wait for the MQTT broker to acknowledge a message
+const MQTT_PUBLISH_TIMEOUT = 5000;
+
+// MQTT connections, kept open so the Last Will marks the extension offline when the browser goes away
+const mqttClients = new Map<string, { client: MqttClient; key: string; availabilityTopic: string }>();
+
+// Attempt number of the update being delivered to each target, keyed by target ID, for the request log
+const deliveryAttempts = new Map<string, number>();
+
+// Why the last update to each target failed, keyed by target ID; removed once an update goes through
+const deliveryFailures = new Map<string, FailureReason>();
+
+// Number of heartbeats that may be missed before Home Assistant considers the browser gone
+const HEARTBEAT_MISSED_LIMIT = 3;
+
 /**
- * Check if the network is available by attempting to reach a reliable endpoint
- * @returns Promise that resolves to true if network is available, false otherwise
+ * Runs a request to a target and adds it to the request log
+ * @param target - Target receiving the request
+ * @param method - HTTP method, or the WebSocket command or MQTT packet
+ * @param url - Requested URL, redacted before being logged
+ * @param request - Function performing the request
+ * @returns Promise that resolves to the request result
  */
-async function checkNetworkConnectivity(): Promise<boolean> {
+async function withRequestLog<T>(target: Target, method: string, url: string, request: () => Promise<T>): Promise<T> {
+    const timestamp = Date.now();
+    let status: number | null = null;
+    let error: string | null = null;
+
     try {
-        // Try to reach a reliable endpoint with a short timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-        const response = await fetch("https://www.google.com/favicon.ico", {
-            method: "HEAD",
-            signal: controller.signal,
-            cache: "no-cache"
-        });
+        const result = await request();
+        if (result instanceof Response) {
+            status = result.status;
+            // Opaque responses (no-cors reachability checks) hide their status
+            if (!result.ok && result.type !== "opaque") {
+                error = `HTTP ${result.status} ${result.statusText}`;
+            }
+        }
+        return result;
+    } catch (caught) {
+        error = String(caught);
+        throw caught;
+    } finally {
+        logRequest({
+            timestamp,
+            targetId: target.id,
+            targetName: target.name,
+            method,
+            url,
+            status,
+            latency: Date.now() - timestamp,
+            attempt: deliveryAttempts.get(target.id) ?? 1,
+            error,
+        }, [target.token, target.mqtt_password]).catch((logError) => console.error("Error logging request:", logError));
+    }
+}
 
-        clearTimeout(timeoutId);
-        return response.ok;
+/**
+ * Sends an HTTP request to a target and adds it to the request log
+ * @param target - Target receiving the request
+ * @param url - Requested URL
+ * @param init - Request options
+ * @returns Promise that resolves to the response
+ */
+function hassFetch(target: Target, url: string, init: RequestInit = {}): Promise<Response> {
+    return withRequestLog(target, init.method ?? "GET", url, () => fetch(url, init));
+}
+
+/**
+ * Publishes an MQTT message and adds it to the request log
+ * @param target - Target containing the MQTT settings
+ * @param client - Connected client
+ * @param message - Message to publish
+ */
+function publishMqtt(target: Target, client: MqttClient, message: MqttMessage): Promise<void> {
+    return withRequestLog(target, `PUBLISH ${message.topic}`, target.mqtt_url.trim(), () => client.publish(message));
+}
+
+/**
+ * Opens (or reuses) the persistent WebSocket connection to a Home Assistant target
+ * @param target - Target containing API details
+ * @returns Promise that resolves to true if connected, false if REST must be used
+ */
+export async function openWebSocket(target: Target): Promise<boolean> {
+    const key = `${target.host}|${target.token}`;
+    let entry = webSocketClients.get(target.id);
+    if (entry === undefined || entry.key !== key) {
+        closeWebSocket(target.id);
+        entry = { client: createWebSocketClient({
+            url: getWebSocketUrl(target.host),
+            token: target.token,
+            connectTimeout: WEBSOCKET_CONNECT_TIMEOUT,
+        }), key };
+        webSocketClients.set(target.id, entry);
+    }
+
+    try {
+        await entry.client.connect();
+        return true;
     } catch (error) {
-        console.error("Network connectivity check failed:", error);
+        console.error(`Home Assistant WebSocket unavailable for ${target.name}, using REST API:`, error);
         return false;
     }
 }
 
+/**
+ * Closes the persistent WebSocket connection to a Home Assistant target
+ * @param targetId - ID of the target whose connection to close (default: close all connections)
+ */
+export function closeWebSocket(targetId?: string) {
+    const ids = targetId !== undefined ? [targetId] : Array.from(webSocketClients.keys());
+    for (const id of ids) {
+        webSocketClients.get(id)?.client.close();
+        webSocketClients.delete(id);
+    }
+}
+
+/**
+ * Gets the WebSocket connection of a target if it is open for its Home Assistant
+ * @param target - Target containing API details
+ * @returns The connected client, or null if REST must be used
+ */
+function getOpenWebSocket(target: Target): HassWebSocketClient | null {
+    const entry = webSocketClients.get(target.id);
+    if (entry?.client.isConnected() && entry.key === `${target.host}|${target.token}`) {
+        return entry.client;
+    }
+    return null;
+}
+
+/**
+ * Gets the MQTT discovery topic and config making Home Assistant create binary_sensor.google_meet
+ * @param config - Configuration object
+ * @param target - Target containing the MQTT settings
+ * @returns The discovery topic and config payload
+ */
+export function getMqttDiscovery(config: Config, target: Target): { topic: string; payload: Record<string, unknown> } {
+    const uniqueId = `google_meet_${target.id}`;
+    return {
+        topic: `${target.mqtt_discovery_prefix.trim()}/binary_sensor/${uniqueId}/config`,
+        payload: {
+            name: "Google Meet",
+            object_id: "google_meet",
+            unique_id: uniqueId,
+            icon: "mdi:video",
+            state_topic: target.mqtt_state_topic.trim(),
+            payload_on: "ON",
+            payload_off: "OFF",
+            json_attributes_topic: `${target.mqtt_state_topic.trim()}/attributes`,
+            availability_topic: target.mqtt_availability_topic.trim(),
+            payload_available: "online",
+            payload_not_available: "offline",
+            device: {
+                identifiers: [uniqueId],
+                name: `Google Meet (${getDeviceName(config)})`,
+                manufacturer: "Google Meet ↔ Home Assistant",
+            },
+        },
+    };
+}
+
+/**
+ * Creates an MQTT client for a target
+ * @param target - Target containing the MQTT settings
+ * @param withWill - Whether the broker marks the extension offline when the connection drops
+ * @returns The client (not connected yet)
+ */
+function createTargetMqttClient(target: Target, withWill: boolean): MqttClient {
+    return createMqttClient({
+        url: target.mqtt_url.trim(),
+        // Synced settings are shared by several computers, so the client ID cannot come from them
+        clientId: "google-meet-" + Math.random().toString(36).slice(2, 10),
+        username: target.mqtt_username,
+        password: target.mqtt_password,
+        connectTimeout: MQTT_CONNECT_TIMEOUT,
+        ackTimeout: MQTT_PUBLISH_TIMEOUT,
+        ...(withWill && {
+            will: { topic: target.mqtt_availability_topic.trim(), payload: "offline", retain: true, qos: 1 },
+        }),
+    });
+}
+
+/**
+ * Gets the MQTT connection of a target, connecting and announcing the sensor if needed
+ * @param config - Configuration object
+ * @param target - Target containing the MQTT settings
+ * @returns Promise that resolves to the connected client
+ */
+async function getMqttClient(config: Config, target: Target): Promise<MqttClient> {
+    const key = [target.mqtt_url, target.mqtt_username, target.mqtt_password, target.mqtt_state_topic,
+        target.mqtt_availability_topic, target.mqtt_discovery_prefix].join("|");
+
+    let entry = mqttClients.get(target.id);
+    if (entry === undefined || entry.key !== key) {
+        closeMqtt(target.id);
+        entry = { client: createTargetMqttClient(target, true), key, availabilityTopic: target.mqtt_availability_topic.trim() };
+        mqttClients.set(target.id, entry);
+    }
+
+    if (!entry.client.isConnected()) {
+        const client = entry.client;
+        await withRequestLog(target, "CONNECT", target.mqtt_url.trim(), () => client.connect());
+
+        // Announce the sensor and mark it available on every (re)connection
+        const discovery = getMqttDiscovery(config, target);
+        await publishMqtt(target, client, { topic: discovery.topic, payload: JSON.stringify(discovery.payload), retain: true, qos: 1 });
+        await publishMqtt(target, client, { topic: target.mqtt_availability_topic.trim(), payload: "online", retain: true, qos: 1 });
+    }
+
+    return entry.client;
+}
+
+/**
+ * Closes the MQTT connection of one or all targets, marking the extension offline
+ * @param targetId - ID of the target whose connection to close (default: close all connections)
+ */
+export function closeMqtt(targetId?: string) {
+    const ids = targetId !== undefined ? [targetId] : Array.from(mqttClients.keys());
+    for (const id of ids) {
+        const entry = mqttClients.get(id);
+        mqttClients.delete(id);
+
+        if (entry?.client.isConnected()) {
+            // A graceful disconnect skips the Last Will, so publish it ourselves
+            entry.client.publish({ topic: entry.availabilityTopic, payload: "offline", retain: true })
+                .catch(() => undefined)
+                .finally(() => entry.client.close());
+        } else {
+            entry?.client.close();
+        }
+    }
+}
+
+/**
+ * Publishes a meeting status to the MQTT broker of a target
+ * @param config - Configuration object
+ * @param target - Target containing the MQTT settings
+ * @param status - Meeting status to publish
+ */
+async function publishMqttStatus(config: Config, target: Target, status: MeetingStatus) {
+    try {
+        const client = await getMqttClient(config, target);
+        const stateTopic = target.mqtt_state_topic.trim();
+
+        await publishMqtt(target, client, { topic: stateTopic, payload: isInCall(status.state) ? "ON" : "OFF", retain: true, qos: 1 });
+        await publishMqtt(target, client, {
+            topic: `${stateTopic}/attributes`,
+            payload: JSON.stringify({
+                state: config.meeting_state_options[status.state],
+                meeting_code: status.meetingCode,
+                started_at: status.startedAt !== null ? new Date(status.startedAt).toISOString() : null,
+                microphone: status.media.microphone ? "on" : "off",
+                camera: status.media.camera ? "on" : "off",
+                presenting: status.media.presenting ? "on" : "off",
+                source_device: getDeviceName(config),
+            }),
+            retain: true,
+            qos: 1,
+        });
+    } catch (error) {
+        console.error("Error publishing meeting status via MQTT:", error);
+        throw error;
+    }
+}
+
+/**
+ * Gets the URL probed to check whether a target is reachable
+ * @param target - Target to check
+ * @returns The URL to probe, or null if the target needs no probe
+ */
+function getReachabilityUrl(target: Target): string | null {
+    if (target.method === "api" || target.method === "event") {
+        return `${target.host.trim().replace(/\/+$/, "")}/api/`;
+    }
+
+    if (target.method === "webhook") {
+        try {
+            return new URL(target.webhook_url.trim()).origin + "/";
+        } catch {
+            return null;
+        }
+    }
+
+    // Connecting to the MQTT broker already tells whether it is reachable
+    return null;
+}
+
+/**
+ * Probes a URL, reusing the result of a recent probe of the same URL
+ * @param url - Probed URL, keying the cached result
+ * @param name - Name of what is probed, shown in the logs
+ * @param probe - Sends the request, rejecting if there is no answer
+ * @returns Promise that resolves to true if the probe got an answer in time, false otherwise
+ */
+async function probeReachability(url: string, name: string, probe: (signal: AbortSignal) => Promise<unknown>): Promise<boolean> {
+    const cached = reachabilityCache.get(url);
+    if (cached !== undefined && Date.now() - cached.checkedAt < REACHABILITY_CACHE_TTL) {
+        return cached.reachable;
+    }
+
+    let reachable = false;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REACHABILITY_TIMEOUT);
+    try {
+        await probe(controller.signal);
+        reachable = true;
+    } catch (error) {
+        console.error(`${name} is not reachable:`, error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    reachabilityCache.set(url, { reachable, checkedAt: Date.now() });
+    return reachable;
+}
+
+/**
+ * Checks whether a target is reachable, reusing recent results
+ *
+ * For the API and event methods, Home Assistant's `GET /api/` endpoint is requested;
+ * any HTTP response (even 401) proves it is reachable. For webhooks, the server hosting
+ * the webhook is requested without triggering it.
+ *
+ * @param target - Target to check
+ * @returns Promise that resolves to true if the target is reachable, false otherwise
+ */
+async function checkTargetReachable(target: Target): Promise<boolean> {
+    const url = getReachabilityUrl(target);
+    if (url === null) {
+        return true;
+    }
+
+    return await probeReachability(url, target.name, (signal) => hassFetch(target, url, {
+        method: target.method === "webhook" ? "HEAD" : "GET",
+        // The webhook server may not allow cross-origin requests; an opaque response is enough
+        ...(target.method === "webhook"
+            ? { mode: "no-cors" as RequestMode }
+            : { headers: { Authorization: "Bearer " + target.token } }),
+        signal,
+        cache: "no-cache",
+    }));
+}
+
+/**
+ * Checks whether a Home Assistant URL answers, whatever the response, reusing recent
+ * results, e.g. to tell which network the computer is on
+ * @param host - Home Assistant base URL
+ * @returns Promise that resolves to true if the instance answered in time, false otherwise
+ */
+export async function checkHostReachable(host: string): Promise<boolean> {
+    const url = `${host.trim().replace(/\/+$/, "")}/api/`;
+
+    // Only the answer matters, not its status, so the request needs no token
+    return await probeReachability(url, host, (signal) => fetch(url, { method: "HEAD", mode: "no-cors", signal, cache: "no-cache" }));
+}
+
+/**
+ * Forgets the cached reachability of a target, e.g. after a failed update
+ * @param target - Target to forget
+ */
+export function forgetReachability(target: Target) {
+    const url = getReachabilityUrl(target);
+    if (url !== null) {
+        reachabilityCache.delete(url);
+    }
+}
+
 /**
  * Retry a function with exponential backoff
- * @param fn - Function to retry
+ * @param fn - Function to retry, receiving the attempt number starting at 0
  * @param maxRetries - Maximum number of retry attempts (default: 3)
  * @param baseDelay - Base delay in milliseconds (default: 1000)
  * @returns Promise that resolves to the function result
  */
 async function retryWithBackoff<T>(
-    fn: () => Promise<T>,
+    fn: (attempt: number) => Promise<T>,
     maxRetries: number = 3,
     baseDelay: number = 1000
 ): Promise<T> {
@@ -80,7 +495,7 @@ async function retryWithBackoff<T>(
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
         try {
-            return await fn();
+            return await fn(attempt);
         } catch (error) {
             lastError = error as Error;
 
@@ -98,46 +513,141 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Updates entity state using Home Assistant API
- * @param config - Configuration object containing API details
- * @param newValue - New boolean value for the entity
+ * Entity domains the API method knows how to update
  */
-async function setEntityStateAPI(config: Config, newValue: boolean) {
-    try {
-        // First try using service calls for boolean entities
-        const service = newValue ? "input_boolean.turn_on" : "input_boolean.turn_off";
-        const serviceUrl = `${config.host}/api/services/${service}`;
+export const SUPPORTED_DOMAINS = ["input_boolean", "switch", "light", "script", "scene", "input_select", "input_text"];
 
-        const response = await fetch(serviceUrl, {
-            method: "POST",
-            headers: {
-                Authorization: "Bearer " + config.token,
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                entity_id: config.entity_id,
-            }),
-        });
+/**
+ * Home Assistant service call
+ */
+export interface ServiceCall {
+    /** Service to call, e.g. "switch.turn_on" */
+    service: string;
+    /** Service data, including the target entity ID */
+    data: Record<string, unknown>;
+}
 
-        if (!response.ok) {
-            // Fallback to direct state setting if service call fails
-            const stateUrl = `${config.host}/api/states/${config.entity_id}`;
+/**
+ * Gets the domain of an entity ID
+ * @param entityId - Entity ID, e.g. "light.on_air"
+ * @returns The entity domain, e.g. "light"
+ */
+export function getEntityDomain(entityId: string): string {
+    return entityId.trim().split(".")[0];
+}
 
-            const fallbackResponse = await fetch(stateUrl, {
-                method: "POST",
-                headers: {
-                    Authorization: "Bearer " + config.token,
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                    state: newValue ? "on" : "off",
-                }),
-            });
+// Domains whose entities keep attributes written through the state machine until their next state change
+const ATTRIBUTE_DOMAINS = ["input_boolean", "switch", "light"];
+
+/**
+ * Checks if attributes can be added to an entity. Other entities (e.g. input_select,
+ * template or integration entities) are owned by an integration, and writing their state
+ * could overwrite it or be lost right away.
+ * @param entityId - Entity ID, e.g. "light.on_air"
+ * @returns True if the domain of the entity supports the attributes
+ */
+export function canSetEntityAttributes(entityId: string): boolean {
+    return ATTRIBUTE_DOMAINS.includes(getEntityDomain(entityId));
+}
 
-            if (!fallbackResponse.ok) {
-                console.error(`Both service call and direct state setting failed: HTTP ${fallbackResponse.status} ${fallbackResponse.statusText}`);
-                throw new Error(`HTTP ${fallbackResponse.status}: ${fallbackResponse.statusText}`);
+/**
+ * Converts a "#rrggbb" color into an RGB triplet
+ * @param color - Hex color
+ * @returns The red, green and blue components
+ */
+function parseHexColor(color: string): [number, number, number] {
+    const hex = color.replace("#", "");
+    return [0, 2, 4].map((offset) => parseInt(hex.substring(offset, offset + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Builds the service call that sets a boolean value on an entity, based on its domain
+ * @param config - Configuration object
+ * @param entityId - Entity to update
+ * @param newValue - New boolean value for the entity
+ * @returns The service call to perform, or null if there is nothing to do for this value
+ */
+function getServiceCall(config: Config, entityId: string, newValue: boolean): ServiceCall | null {
+    const domain = getEntityDomain(entityId);
+    const turn = newValue ? "turn_on" : "turn_off";
+
+    switch (domain) {
+        case "input_boolean":
+        case "switch":
+        case "script":
+            return { service: `${domain}.${turn}`, data: { entity_id: entityId } };
+        case "light":
+            if (!newValue) {
+                return { service: "light.turn_off", data: { entity_id: entityId } };
             }
+            return {
+                service: "light.turn_on",
+                data: {
+                    entity_id: entityId,
+                    brightness_pct: config.light_brightness_pct,
+                    ...(config.light_color && { rgb_color: parseHexColor(config.light_color) }),
+                },
+            };
+        case "scene":
+            // Scenes can only be activated, there is nothing to turn off
+            return newValue ? { service: "scene.turn_on", data: { entity_id: entityId } } : null;
+        case "input_select":
+            return {
+                service: "input_select.select_option",
+                data: { entity_id: entityId, option: config.meeting_state_options[newValue ? "in_call" : "idle"] },
+            };
+        case "input_text":
+            return {
+                service: "input_text.set_value",
+                data: { entity_id: entityId, value: config.meeting_state_options[newValue ? "in_call" : "idle"] },
+            };
+        default:
+            throw new Error(`Unsupported entity domain "${domain}"`);
+    }
+}
+
+/**
+ * Calls a Home Assistant service, over the WebSocket connection if open or else the REST API
+ * @param target - Target containing API details
+ * @param call - Service call to perform
+ */
+async function callService(target: Target, call: ServiceCall) {
+    const socket = getOpenWebSocket(target);
+    if (socket) {
+        const [domain, service] = call.service.split(".");
+        await withRequestLog(target, `call_service ${call.service}`, getWebSocketUrl(target.host), () =>
+            socket.callService(domain, service, call.data)
+        );
+        return;
+    }
+
+    const response = await hassFetch(target, `${target.host}/api/services/${call.service}`, {
+        method: "POST",
+        headers: {
+            Authorization: "Bearer " + target.token,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify(call.data),
+    });
+
+    if (!response.ok) {
+        console.error(`Service call ${call.service} failed: HTTP ${response.status} ${response.statusText}`);
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+}
+
+/**
+ * Updates entity state using Home Assistant API, with the service matching its domain
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @param newValue - New boolean value for the entity
+ * @param entityId - Entity to update (default: the meeting entity of the target)
+ */
+async function setEntityStateAPI(config: Config, target: Target, newValue: boolean, entityId: string = target.entity_id) {
+    try {
+        const call = getServiceCall(config, entityId.trim(), newValue);
+        if (call !== null) {
+            await callService(target, call);
         }
     } catch (error) {
         console.error("Error updating entity state via API:", error);
@@ -145,21 +655,184 @@ async function setEntityStateAPI(config: Config, newValue: boolean) {
     }
 }
 
+/**
+ * HTTP request sent to a webhook
+ */
+export interface WebhookRequest {
+    /** URL with its placeholders filled in */
+    url: string;
+    /** HTTP method */
+    method: string;
+    /** Request headers */
+    headers: Record<string, string>;
+    /** Request body, or undefined for GET requests */
+    body: string | undefined;
+}
+
+/**
+ * Placeholders available in webhook URLs and body templates
+ */
+export const WEBHOOK_PLACEHOLDERS = [
+    "value",
+    "state",
+    "meeting_code",
+    "timestamp",
+    "started_at",
+    "duration",
+    "device_name",
+    "user",
+    "microphone",
+    "camera",
+    "presenting",
+];
+
+/**
+ * Gets the value of each webhook placeholder for a meeting status
+ * @param config - Configuration object
+ * @param status - Meeting status to describe
+ * @param now - Current date
+ * @returns The value of each placeholder
+ */
+function getWebhookValues(config: Config, status: MeetingStatus, now: Date): Record<string, string> {
+    return {
+        value: isInCall(status.state) ? "on" : "off",
+        state: config.meeting_state_options[status.state],
+        meeting_code: status.meetingCode ?? "",
+        timestamp: now.toISOString(),
+        started_at: status.startedAt !== null ? new Date(status.startedAt).toISOString() : "",
+        duration: String(status.startedAt !== null ? Math.round((now.getTime() - status.startedAt) / 1000) : 0),
+        device_name: getDeviceName(config),
+        user: config.user_name,
+        microphone: status.media.microphone ? "on" : "off",
+        camera: status.media.camera ? "on" : "off",
+        presenting: status.media.presenting ? "on" : "off",
+    };
+}
+
+/**
+ * Replaces the {{placeholders}} of a template, leaving unknown ones untouched
+ * @param template - Template text
+ * @param values - Value of each placeholder
+ * @param escape - Escapes a value before inserting it
+ * @returns The rendered text
+ */
+function renderTemplate(template: string, values: Record<string, string>, escape: (value: string) => string): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        values[name] !== undefined ? escape(values[name]) : placeholder
+    );
+}
+
+/**
+ * Builds the HTTP request sent to the webhook of a target for a meeting status
+ *
+ * Without a body template, the default JSON payload is sent: the on/off value plus the
+ * meeting state, microphone, camera and presenting state.
+ *
+ * @param config - Configuration object
+ * @param target - Target containing the webhook settings
+ * @param status - Meeting status to send
+ * @param now - Current date (default: now)
+ * @returns The request to send
+ */
+export function renderWebhookRequest(config: Config, target: Target, status: MeetingStatus, now: Date = new Date()): WebhookRequest {
+    const values = getWebhookValues(config, status, now);
+
+    // GET requests have no body, and a content type would only trigger a CORS preflight
+    const headers: Record<string, string> = target.webhook_method === "GET" ? {} : { "Content-Type": "application/json" };
+    for (const line of target.webhook_headers.split("\n")) {
+        const separator = line.indexOf(":");
+        if (separator > 0) {
+            const name = line.slice(0, separator).trim();
+            // Header names are case-insensitive, so a configured Content-Type replaces the default one
+            Object.keys(headers).filter((key) => key.toLowerCase() === name.toLowerCase()).forEach((key) => delete headers[key]);
+            headers[name] = renderTemplate(line.slice(separator + 1).trim(), values, (value) => value);
+        }
+    }
+
+    let body: string | undefined;
+    if (target.webhook_method !== "GET") {
+        if (target.webhook_body_template.trim() === "") {
+            body = JSON.stringify({
+                value: values.value,
+                state: values.state,
+                microphone: values.microphone,
+                camera: values.camera,
+                presenting: values.presenting,
+            });
+        } else {
+            // Keep JSON templates valid when values contain quotes or backslashes
+            const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === "content-type")?.[1] ?? "";
+            const escape = contentType.includes("json") ? (value: string) => JSON.stringify(value).slice(1, -1) : (value: string) => value;
+            body = renderTemplate(target.webhook_body_template, values, escape);
+        }
+    }
+
+    return {
+        url: renderTemplate(target.webhook_url.trim(), values, encodeURIComponent),
+        method: target.webhook_method,
+        headers,
+        body,
+    };
+}
+
+/**
+ * Gets the host permissions the webhooks of the enabled targets need
+ *
+ * Only the Home Assistant REST API paths are granted at install. Other webhook servers
+ * (Node-RED, n8n...) rarely answer the CORS preflight that custom methods and headers
+ * trigger, so the extension asks for access to their host, which skips CORS.
+ *
+ * @param config - Configuration object
+ * @returns Host permission patterns, e.g. "http://nodered.local/*"
+ */
+export function getWebhookOrigins(config: Config): string[] {
+    const origins: string[] = [];
+    for (const target of config.targets.filter((item) => item.enabled && item.method === "webhook")) {
+        try {
+            // Host permission patterns match every port
+            const url = new URL(target.webhook_url.trim());
+            const origin = `${url.protocol}//${url.hostname}/*`;
+            if (!origins.includes(origin)) {
+                origins.push(origin);
+            }
+        } catch {
+            // Invalid URLs are reported by the validation
+        }
+    }
+    return origins;
+}
+
+/**
+ * Builds the meeting status matching a plain on/off value
+ * @param newValue - Whether a call is in progress
+ * @returns The meeting status, with everything else off
+ */
+function getValueStatus(newValue: boolean): MeetingStatus {
+    return {
+        state: newValue ? "in_call" : "idle",
+        media: { microphone: false, camera: false, presenting: false },
+        meetingCode: null,
+        startedAt: null,
+        meetingTitle: null,
+        tabCount: 0,
+    };
+}
+
 /**
  * Updates entity state using Home Assistant webhook
- * @param config - Configuration object containing webhook URL
+ * @param config - Configuration object
+ * @param target - Target containing the webhook settings
  * @param newValue - New boolean value for the entity
+ * @param status - Optional meeting status to include in the payload
  */
-async function setEntityStateWebhook(config: Config, newValue: boolean) {
+async function setEntityStateWebhook(config: Config, target: Target, newValue: boolean, status?: MeetingStatus) {
     try {
-        const response = await fetch(config.webhook_url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                value: newValue ? "on" : "off",
-            }),
+        const request = renderWebhookRequest(config, target, status ?? getValueStatus(newValue));
+
+        const response = await hassFetch(target, request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
         });
 
         if (!response.ok) {
@@ -173,38 +846,656 @@ async function setEntityStateWebhook(config: Config, newValue: boolean) {
 }
 
 /**
- * Updates Home Assistant entity state based on configuration method
- * @param config - Configuration object
- * @param newValue - New boolean value for the entity
+ * Categorizes the error of a failed update, for the failure notifications
+ * @param error - Error thrown by the last attempt
+ * @returns Why the update failed
+ */
+function getFailureReason(error: unknown): FailureReason {
+    const message = String(error);
+
+    if (/HTTP 40[13]\b|Invalid auth token|Bad username or password|Not authorized/i.test(message)) {
+        return "auth";
+    }
+    if (/HTTP 404\b|not found/i.test(message)) {
+        return "not_found";
+    }
+    // fetch() rejects with a TypeError when the network request itself fails
+    if (error instanceof TypeError || /timed out|Could not connect|Connection to .* lost|Not connected|Broker unavailable/i.test(message)) {
+        return "unreachable";
+    }
+    return "error";
+}
+
+/**
+ * Gets why the last update to a target failed
+ * @param targetId - ID of the target
+ * @returns The reason, or null if the last update went through
+ */
+export function getDeliveryFailure(targetId: string): FailureReason | null {
+    return deliveryFailures.get(targetId) ?? null;
+}
+
+/**
+ * Runs an update after checking the target is reachable, retrying it with exponential backoff
+ * @param target - Target receiving the update
+ * @param update - Function performing the update
  * @returns Promise that resolves to true if successful, false otherwise
  */
-export async function setEntityState(config: Config, newValue: boolean) {
+async function deliverUpdate(target: Target, update: () => Promise<void>): Promise<boolean> {
     try {
-        // Check network connectivity first
-        const isNetworkAvailable = await checkNetworkConnectivity();
-        if (!isNetworkAvailable) {
-            console.error("No network connectivity available");
+        // Check the target is reachable first, unless the WebSocket connection proves it
+        const isReachable = getOpenWebSocket(target) !== null || await checkTargetReachable(target);
+        if (!isReachable) {
+            console.error(`${target.name} is not reachable`);
+            deliveryFailures.set(target.id, "unreachable");
             return false;
         }
 
         // Use retry logic for the actual API call
-        const result = await retryWithBackoff(async () => {
-            if (config.method === "webhook") {
-                return await setEntityStateWebhook(config, newValue);
-            } else {
-                return await setEntityStateAPI(config, newValue);
-            }
+        await retryWithBackoff((attempt) => {
+            deliveryAttempts.set(target.id, attempt + 1);
+            return update();
         });
 
-        return result;
+        deliveryFailures.delete(target.id);
+        return true;
     } catch (error) {
-        console.error("Failed to update Home Assistant entity state after retries:", error);
+        // Check again next time rather than trusting a cached result
+        forgetReachability(target);
+        deliveryFailures.set(target.id, getFailureReason(error));
+        console.error(`Failed to update Home Assistant target ${target.name} after retries:`, error);
         // Don't throw the error to prevent the extension from crashing
-        // The user can check the console for error details
+        // The user can check the console or the request log for error details
         return false;
+    } finally {
+        deliveryAttempts.delete(target.id);
+    }
+}
+
+/**
+ * Calls a list of Home Assistant services in order, e.g. the actions of a rule
+ * @param target - Target containing API details
+ * @param calls - Service calls to perform
+ * @returns Promise that resolves to true if successful, false otherwise
+ */
+export async function callServices(target: Target, calls: ServiceCall[]): Promise<boolean> {
+    return await deliverUpdate(target, async () => {
+        for (const call of calls) {
+            await callService(target, call);
+        }
+    });
+}
+
+/**
+ * Updates the optional microphone, camera and presenting entities using Home Assistant API
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @param media - Current microphone, camera and presenting state
+ */
+async function setMediaEntitiesAPI(config: Config, target: Target, media: MediaState) {
+    if (target.microphone_entity_id.trim() !== "") {
+        await setEntityStateAPI(config, target, media.microphone, target.microphone_entity_id.trim());
+    }
+
+    if (target.camera_entity_id.trim() !== "") {
+        await setEntityStateAPI(config, target, media.camera, target.camera_entity_id.trim());
+    }
+
+    if (target.presenting_entity_id.trim() !== "") {
+        await setEntityStateAPI(config, target, media.presenting, target.presenting_entity_id.trim());
+    }
+}
+
+/**
+ * Selects the option of the meeting state entity using Home Assistant API
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @param state - Current meeting state
+ */
+async function setMeetingStateAPI(config: Config, target: Target, state: MeetingState) {
+    const entityId = target.meeting_state_entity_id.trim();
+    const option = config.meeting_state_options[state];
+
+    // input_select entities pick one of their options, input_text entities take any value
+    if (getEntityDomain(entityId) === "input_select") {
+        await callService(target, { service: "input_select.select_option", data: { entity_id: entityId, option } });
+    } else {
+        await callService(target, { service: "input_text.set_value", data: { entity_id: entityId, value: option } });
+    }
+}
+
+/**
+ * State of the meeting entity read back from Home Assistant
+ */
+export interface EntityValue {
+    /** Raw state of the entity, e.g. "on" or "In call" */
+    state: string;
+    /** Whether the state means "in a meeting", or null if it cannot tell (scripts, scenes, unavailable entities) */
+    value: boolean | null;
+}
+
+/**
+ * Gets the states the meeting entity takes in and out of a meeting
+ * @param config - Configuration object
+ * @param entityId - Meeting entity
+ * @returns The "in a meeting" and "not in a meeting" states, or null if the entity has none (scripts, scenes)
+ */
+function getEntityStates(config: Config, entityId: string): { on: string; off: string } | null {
+    switch (getEntityDomain(entityId)) {
+        case "input_boolean":
+        case "switch":
+        case "light":
+            return { on: "on", off: "off" };
+        case "input_select":
+        case "input_text":
+            return { on: config.meeting_state_options.in_call, off: config.meeting_state_options.idle };
+        default:
+            // Scripts and scenes only remember when they last ran
+            return null;
+    }
+}
+
+/**
+ * Gets the state and attributes of an entity using Home Assistant API
+ * @param target - Target containing API details
+ * @param entityId - Entity to read
+ * @returns Promise that resolves to the entity
+ */
+async function fetchEntity(target: Target, entityId: string): Promise<HassState> {
+    const response = await hassFetch(target, `${target.host}/api/states/${entityId}`, {
+        method: "GET",
+        headers: {
+            Authorization: "Bearer " + target.token,
+            "Content-Type": "application/json",
+        },
+    });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+}
+
+/**
+ * Reads the meeting entity of a target back from Home Assistant, over the WebSocket
+ * connection if open or else the REST API
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @returns Promise that resolves to the state of the entity
+ */
+export async function readMeetingEntity(config: Config, target: Target): Promise<EntityValue> {
+    const entityId = target.entity_id.trim();
+    let state: string;
+
+    const socket = getOpenWebSocket(target);
+    if (socket) {
+        const states = await withRequestLog(target, "get_states", getWebSocketUrl(target.host), () => socket.getStates());
+        const entity = states.find((item) => item.entity_id === entityId);
+        if (entity === undefined) {
+            throw new Error(`Entity ${entityId} not found`);
+        }
+        state = entity.state;
+    } else {
+        state = (await fetchEntity(target, entityId)).state;
+    }
+
+    const states = getEntityStates(config, entityId);
+    if (states === null) {
+        return { state, value: null };
+    }
+    return { state, value: state === states.on ? true : state === states.off ? false : null };
+}
+
+/**
+ * Writes the state and attributes of an entity to the Home Assistant state machine
+ * @param target - Target containing API details
+ * @param entityId - Entity to write
+ * @param state - New state
+ * @param attributes - New attributes, replacing the current ones
+ */
+async function postState(target: Target, entityId: string, state: string, attributes: Record<string, unknown>) {
+    const response = await hassFetch(target, `${target.host}/api/states/${entityId}`, {
+        method: "POST",
+        headers: {
+            Authorization: "Bearer " + target.token,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ state, attributes }),
+    });
+
+    if (!response.ok) {
+        console.error(`Failed to write the state of ${entityId}: HTTP ${response.status} ${response.statusText}`);
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+}
+
+/**
+ * Adds attributes to an entity using Home Assistant API, keeping its state and other attributes
+ *
+ * The state machine is written directly, as there is no service setting attributes. The
+ * entity replaces the attributes with its own on its next state change. Entities of other
+ * domains than input_boolean, switch and light are skipped (see canSetEntityAttributes()).
+ *
+ * @param target - Target containing API details
+ * @param entityId - Entity to update
+ * @param attributes - Attributes to add or replace
+ */
+async function setEntityAttributes(target: Target, entityId: string, attributes: Record<string, unknown>) {
+    if (!canSetEntityAttributes(entityId)) {
+        return;
+    }
+
+    const entity = await fetchEntity(target, entityId);
+    await postState(target, entityId, entity.state, { ...entity.attributes, ...attributes });
+}
+
+/**
+ * Publishes the time spent in meetings today to the optional sensors of a target
+ *
+ * The sensors use the total_increasing state class, so Home Assistant keeps long-term
+ * statistics and treats the drop at midnight as a new cycle.
+ *
+ * @param target - Target containing API details
+ * @param totals - Minutes and number of meetings since local midnight
+ * @returns Promise that resolves to true if successful (or no sensor configured), false otherwise
+ */
+export async function publishDailyTotals(target: Target, totals: DailyTotals): Promise<boolean> {
+    const minutesEntityId = target.minutes_today_entity_id.trim();
+    const meetingsEntityId = target.meetings_today_entity_id.trim();
+    if (target.method !== "api" || (minutesEntityId === "" && meetingsEntityId === "")) {
+        return true;
     }
+
+    return await deliverUpdate(target, async () => {
+        if (minutesEntityId !== "") {
+            await postState(target, minutesEntityId, String(totals.minutes), {
+                friendly_name: "Meeting minutes today",
+                icon: "mdi:timer-outline",
+                unit_of_measurement: "min",
+                device_class: "duration",
+                state_class: "total_increasing",
+            });
+        }
+        if (meetingsEntityId !== "") {
+            await postState(target, meetingsEntityId, String(totals.count), {
+                friendly_name: "Meetings today",
+                icon: "mdi:video",
+                unit_of_measurement: "meetings",
+                state_class: "total_increasing",
+            });
+        }
+    });
 }
 
+/**
+ * Gets the meeting details published as attributes of the meeting entity
+ * @param config - Configuration object listing the attributes to publish
+ * @param status - Current meeting status
+ * @param now - Current date (default: now)
+ * @returns The enabled attributes, with null values outside of meetings
+ */
+export function getMeetingAttributes(config: Config, status: MeetingStatus, now: Date = new Date()): Record<string, unknown> {
+    const values: Record<MeetingAttribute, unknown> = {
+        meeting_code: status.meetingCode,
+        meeting_title: status.meetingTitle ?? null,
+        started_at: status.startedAt !== null ? new Date(status.startedAt).toISOString() : null,
+        duration: status.startedAt !== null ? Math.round((now.getTime() - status.startedAt) / 1000) : null,
+        tab_count: status.tabCount ?? 0,
+        source_device: getDeviceName(config),
+    };
+
+    const attributes: Record<string, unknown> = {};
+    for (const name of config.meeting_attributes) {
+        attributes[name] = values[name];
+    }
+    return attributes;
+}
+
+/**
+ * Gets the name identifying this computer in payloads
+ * @param config - Configuration object
+ * @returns The configured device name, or the platform name if none is configured
+ */
+export function getDeviceName(config: Config): string {
+    return config.device_name.trim() || navigator.platform || "unknown";
+}
+
+/**
+ * Fires a custom event, over the WebSocket connection if open or else the REST API
+ * @param target - Target containing API details
+ * @param eventType - Type of the event, e.g. "google_meet_started"
+ * @param data - Event data
+ */
+async function fireEvent(target: Target, eventType: string, data: Record<string, unknown>) {
+    try {
+        const socket = getOpenWebSocket(target);
+        if (socket) {
+            await withRequestLog(target, `fire_event ${eventType}`, getWebSocketUrl(target.host), () => socket.fireEvent(eventType, data));
+            return;
+        }
+
+        const response = await hassFetch(target, `${target.host}/api/events/${eventType}`, {
+            method: "POST",
+            headers: {
+                Authorization: "Bearer " + target.token,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+            console.error(`Failed to fire event ${eventType}: HTTP ${response.status} ${response.statusText}`);
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+    } catch (error) {
+        console.error("Error firing Home Assistant event:", error);
+        throw error;
+    }
+}
+
+/**
+ * Fires the meeting event matching a meeting status change using Home Assistant API
+ *
+ * Fires "<prefix>_started" when a call starts, "<prefix>_ended" when it ends, and
+ * "<prefix>_updated" for any other change (lobby, microphone, camera, presenting).
+ *
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @param status - Current meeting status
+ * @param previous - Previously published meeting status
+ */
+async function fireMeetingEvent(config: Config, target: Target, status: MeetingStatus, previous: MeetingStatus | null) {
+    const isInMeeting = isInCall(status.state);
+    const wasInMeeting = previous !== null && isInCall(previous.state);
+
+    let event = "updated";
+    if (isInMeeting && !wasInMeeting) {
+        event = "started";
+    } else if (!isInMeeting && wasInMeeting) {
+        event = "ended";
+    }
+
+    // The start time of an ended call is only known from the previous status
+    const startedAt = status.startedAt ?? (event === "ended" ? previous?.startedAt ?? null : null);
+
+    await fireEvent(target, `${target.event_prefix}_${event}`, {
+        meeting_code: status.meetingCode ?? (event === "ended" ? previous?.meetingCode ?? null : null),
+        started_at: startedAt !== null ? new Date(startedAt).toISOString() : null,
+        duration: startedAt !== null ? Math.round((Date.now() - startedAt) / 1000) : 0,
+        source_device: getDeviceName(config),
+        state: config.meeting_state_options[status.state],
+        microphone: status.media.microphone ? "on" : "off",
+        camera: status.media.camera ? "on" : "off",
+        presenting: status.media.presenting ? "on" : "off",
+    });
+}
+
+/**
+ * Updates Home Assistant entity state based on the method of a target
+ * @param config - Configuration object
+ * @param target - Target to update
+ * @param newValue - New boolean value for the entity
+ * @returns Promise that resolves to true if successful, false otherwise
+ */
+export async function setEntityState(config: Config, target: Target, newValue: boolean): Promise<boolean> {
+    return await deliverUpdate(target, async () => {
+        if (target.method === "webhook") {
+            await setEntityStateWebhook(config, target, newValue);
+        } else if (target.method === "event") {
+            await fireEvent(target, `${target.event_prefix}_${newValue ? "started" : "ended"}`, {
+                source_device: getDeviceName(config),
+            });
+        } else if (target.method === "mqtt") {
+            await publishMqttStatus(config, target, getValueStatus(newValue));
+        } else {
+            await setEntityStateAPI(config, target, newValue);
+        }
+    });
+}
+
+/**
+ * Publishes a meeting status change to a Home Assistant target
+ *
+ * With the API method, only the entities whose value changed are updated: the meeting
+ * entity, the optional microphone/camera/presenting entities and the optional meeting
+ * state entity, plus the enabled meeting attributes of the meeting entity. With the
+ * webhook method, the full status is sent in a single payload.
+ * With the event method, a started/ended/updated event is fired. With the MQTT method,
+ * the on/off state and the attributes are published as retained messages.
+ *
+ * @param config - Configuration object
+ * @param target - Target to publish to
+ * @param status - Current meeting status
+ * @param previous - Previously published meeting status, or null to publish everything
+ * @returns Promise that resolves to true if successful, false otherwise
+ */
+export async function publishMeetingStatus(config: Config, target: Target, status: MeetingStatus, previous: MeetingStatus | null): Promise<boolean> {
+    const isInMeeting = isInCall(status.state);
+
+    if (target.method === "webhook") {
+        return await deliverUpdate(target, async () => {
+            await setEntityStateWebhook(config, target, isInMeeting, status);
+        });
+    }
+
+    if (target.method === "event") {
+        return await deliverUpdate(target, async () => {
+            await fireMeetingEvent(config, target, status, previous);
+        });
+    }
+
+    if (target.method === "mqtt") {
+        return await deliverUpdate(target, async () => {
+            await publishMqttStatus(config, target, status);
+        });
+    }
+
+    const meetingChanged = previous === null || isInCall(previous.state) !== isInMeeting;
+    const mediaChanged = previous === null || JSON.stringify(previous.media) !== JSON.stringify(status.media);
+    const stateChanged = previous === null || previous.state !== status.state;
+    const detailsChanged = previous === null || previous.meetingCode !== status.meetingCode ||
+        previous.meetingTitle !== status.meetingTitle || previous.tabCount !== status.tabCount || previous.startedAt !== status.startedAt;
+
+    const mediaEntities = [target.microphone_entity_id, target.camera_entity_id, target.presenting_entity_id];
+    const hasMediaEntities = mediaEntities.some((entityId) => entityId.trim() !== "");
+    const hasStateEntity = target.meeting_state_entity_id.trim() !== "";
+    const hasAttributes = config.meeting_attributes.length > 0 && canSetEntityAttributes(target.entity_id);
+
+    // Nothing to publish if only unconfigured entities changed
+    if (!meetingChanged && !(mediaChanged && hasMediaEntities) && !(stateChanged && hasStateEntity) && !(detailsChanged && hasAttributes)) {
+        return true;
+    }
+
+    return await deliverUpdate(target, async () => {
+        if (meetingChanged) {
+            await setEntityStateAPI(config, target, isInMeeting);
+        }
+        // Service calls replace the attributes of the entity, so they are added back afterwards
+        if (hasAttributes && (meetingChanged || detailsChanged)) {
+            await setEntityAttributes(target, target.entity_id.trim(), getMeetingAttributes(config, status));
+        }
+        if (mediaChanged && hasMediaEntities) {
+            await setMediaEntitiesAPI(config, target, status.media);
+        }
+        if (stateChanged && hasStateEntity) {
+            await setMeetingStateAPI(config, target, status.state);
+        }
+    });
+}
+
+/**
+ * Tells a target the browser is still in the meeting, so Home Assistant can turn the
+ * meeting entity off when the heartbeats stop (e.g. after a crash or with the lid closed)
+ *
+ * With the API method, a last_seen attribute is added to the meeting entity. With the
+ * webhook method, the request is sent again. With the event method, a "<prefix>_heartbeat"
+ * event is fired. MQTT targets need no heartbeat, as the broker publishes the Last Will
+ * when the connection stops answering.
+ *
+ * @param config - Configuration object
+ * @param target - Target to send the heartbeat to
+ * @param status - Current meeting status
+ * @returns Promise that resolves to true if successful, false otherwise
+ */
+export async function sendHeartbeat(config: Config, target: Target, status: MeetingStatus): Promise<boolean> {
+    if (target.method === "mqtt") {
+        return true;
+    }
+
+    const lastSeen = new Date().toISOString();
+    return await deliverUpdate(target, async () => {
+        if (target.method === "webhook") {
+            await setEntityStateWebhook(config, target, true, status);
+        } else if (target.method === "event") {
+            await fireEvent(target, `${target.event_prefix}_heartbeat`, {
+                meeting_code: status.meetingCode,
+                source_device: getDeviceName(config),
+                last_seen: lastSeen,
+            });
+        } else {
+            // The elapsed duration is refreshed along with the heartbeat
+            await setEntityAttributes(target, target.entity_id.trim(), { ...getMeetingAttributes(config, status), last_seen: lastSeen });
+        }
+    });
+}
+
+/**
+ * Renders a service call as the action of a Home Assistant automation
+ * @param call - Service call
+ * @returns The YAML lines of the action
+ */
+function renderServiceAction(call: ServiceCall): string[] {
+    const { entity_id: entityId, ...data } = call.data;
+    const lines = [`  - service: ${call.service}`, "    target:", `      entity_id: ${entityId}`];
+    if (Object.keys(data).length > 0) {
+        lines.push("    data:", ...Object.entries(data).map(([key, value]) => `      ${key}: ${JSON.stringify(value)}`));
+    }
+    return lines;
+}
+
+/**
+ * Builds the Home Assistant automation turning the meeting entity of a target off when
+ * the heartbeats stop
+ * @param config - Configuration object containing the heartbeat interval
+ * @param target - Target receiving the heartbeats
+ * @returns The automation in YAML, or null if the target cannot get one
+ */
+export function getHeartbeatAutomation(config: Config, target: Target): string | null {
+    const timeout = config.heartbeat_interval * HEARTBEAT_MISSED_LIMIT;
+
+    if (target.method === "api") {
+        const entityId = target.entity_id.trim();
+        const states = getEntityStates(config, entityId);
+        const call = getServiceCall(config, entityId, false);
+        // The heartbeats are only added as an attribute where attributes can be written
+        if (states === null || call === null || !canSetEntityAttributes(entityId)) {
+            return null;
+        }
+
+        return [
+            `alias: Google Meet heartbeat timeout (${target.name})`,
+            `description: Turns ${entityId} off when the browser stops sending heartbeats`,
+            "trigger:",
+            "  - platform: template",
+            "    value_template: >-",
+            `      {{ is_state('${entityId}', ${JSON.stringify(states.on)})`,
+            `         and state_attr('${entityId}', 'last_seen') is not none`,
+            `         and now() - as_datetime(state_attr('${entityId}', 'last_seen')) > timedelta(minutes=${timeout}) }}`,
+            "action:",
+            ...renderServiceAction(call),
+            "mode: single",
+        ].join("\n");
+    }
+
+    if (target.method === "event") {
+        const prefix = target.event_prefix;
+        return [
+            `alias: Google Meet heartbeat timeout (${target.name})`,
+            `description: Fires ${prefix}_ended when the browser stops sending heartbeats during a meeting`,
+            "trigger:",
+            "  - platform: event",
+            `    event_type: ${prefix}_started`,
+            "  - platform: event",
+            `    event_type: ${prefix}_heartbeat`,
+            "  - platform: event",
+            `    event_type: ${prefix}_ended`,
+            "    id: ended",
+            "action:",
+            "  - condition: template",
+            "    value_template: \"{{ trigger.id != 'ended' }}\"",
+            "  - delay:",
+            `      minutes: ${timeout}`,
+            `  - event: ${prefix}_ended`,
+            "    event_data:",
+            `      source_device: ${JSON.stringify(getDeviceName(config))}`,
+            "      reason: heartbeat_timeout",
+            "mode: restart",
+        ].join("\n");
+    }
+
+    if (target.method === "webhook") {
+        // Only Home Assistant webhooks receiving the default payload can be handled by a generic automation
+        const webhookId = target.webhook_url.match(/\/api\/webhook\/([^/?#{}]+)/)?.[1];
+        if (webhookId === undefined || target.webhook_method === "GET" || target.webhook_body_template.trim() !== "") {
+            return null;
+        }
+
+        return [
+            `alias: Google Meet webhook (${target.name})`,
+            "description: Updates input_boolean.in_meeting and turns it off when the browser stops sending heartbeats",
+            "trigger:",
+            "  - platform: webhook",
+            `    webhook_id: ${webhookId}`,
+            "    allowed_methods:",
+            `      - ${target.webhook_method}`,
+            "action:",
+            "  - service: \"input_boolean.turn_{{ trigger.json.value }}\"",
+            "    target:",
+            "      entity_id: input_boolean.in_meeting",
+            "  - condition: template",
+            "    value_template: \"{{ trigger.json.value == 'on' }}\"",
+            "  - delay:",
+            `      minutes: ${timeout}`,
+            "  - service: input_boolean.turn_off",
+            "    target:",
+            "      entity_id: input_boolean.in_meeting",
+            "mode: restart",
+        ].join("\n");
+    }
+
+    return null;
+}
+
+/**
+ * Result of the last update delivered to a target
+ */
+export interface TargetResult {
+    /** ID of the target */
+    id: string;
+    /** Name of the target */
+    name: string;
+    /** Whether the update was delivered */
+    success: boolean;
+    /** Whether the update is queued, waiting to be delivered */
+    pending: boolean;
+    /** State of the meeting entity in Home Assistant if it disagrees with the meeting state, else null */
+    mismatch: string | null;
+    /** When the update was attempted (milliseconds since epoch) */
+    timestamp: number;
+}
+
+/**
+ * Meeting status of a call in progress, used to test and preview webhooks
+ */
+export const SAMPLE_MEETING_STATUS: MeetingStatus = {
+    state: "in_call",
+    media: { microphone: true, camera: true, presenting: false },
+    meetingCode: "abc-defg-hij",
+    startedAt: Date.now() - 5 * 60 * 1000,
+    meetingTitle: "Weekly sync",
+    tabCount: 1,
+};
+
 /**
  * Interface for test connection results
  */
@@ -217,17 +1508,30 @@ export interface TestResult {
 
 /**
  * Tests API connection to Home Assistant
- * @param config - Configuration object containing API details
+ * @param target - Target containing API details
  * @returns Promise that resolves to test result
  */
-async function testConnectionAPI(config: Config): Promise<TestResult> {
+async function testConnectionAPI(target: Target): Promise<TestResult> {
+    const entityIds = [target.entity_id, target.microphone_entity_id, target.camera_entity_id, target.presenting_entity_id]
+        .map((entityId) => entityId.trim())
+        .filter((entityId) => entityId !== "");
+
+    const unsupported = entityIds.find((entityId) => !SUPPORTED_DOMAINS.includes(getEntityDomain(entityId)));
+    if (unsupported !== undefined) {
+        return {
+            success: false,
+            message: `Unsupported entity domain "${getEntityDomain(unsupported)}" (${unsupported}). Supported domains: ${SUPPORTED_DOMAINS.join(", ")}`,
+        };
+    }
+
     try {
-        const { status } = await fetch(
-            config.host + "/api/states/" + config.entity_id,
+        const { status } = await hassFetch(
+            target,
+            target.host + "/api/states/" + target.entity_id,
             {
                 method: "GET",
                 headers: {
-                    Authorization: "Bearer " + config.token,
+                    Authorization: "Bearer " + target.token,
                     "Content-Type": "application/json",
                 },
             }
@@ -264,20 +1568,18 @@ async function testConnectionAPI(config: Config): Promise<TestResult> {
 }
 
 /**
- * Tests webhook connection to Home Assistant
- * @param config - Configuration object containing webhook URL
+ * Tests webhook connection to Home Assistant by sending the request of a call in progress
+ * @param config - Configuration object
+ * @param target - Target containing the webhook settings
  * @returns Promise that resolves to test result
  */
-async function testConnectionWebhook(config: Config): Promise<TestResult> {
+async function testConnectionWebhook(config: Config, target: Target): Promise<TestResult> {
     try {
-        const response = await fetch(config.webhook_url, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                value: "on",
-            }),
+        const request = renderWebhookRequest(config, target, SAMPLE_MEETING_STATUS);
+        const response = await hassFetch(target, request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
         });
 
                if (response.status === 200) {
@@ -300,14 +1602,97 @@ async function testConnectionWebhook(config: Config): Promise<TestResult> {
 }
 
 /**
- * Tests the connection to Home Assistant based on configuration method
+ * Tests event firing on Home Assistant by firing a "<prefix>_test" event
+ * @param config - Configuration object
+ * @param target - Target containing API details
+ * @returns Promise that resolves to test result
+ */
+async function testConnectionEvent(config: Config, target: Target): Promise<TestResult> {
+    try {
+        const { status } = await hassFetch(target, `${target.host}/api/events/${target.event_prefix}_test`, {
+            method: "POST",
+            headers: {
+                Authorization: "Bearer " + target.token,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+                source_device: getDeviceName(config),
+            }),
+        });
+
+        switch (status) {
+            case 200:
+                return {
+                    success: true,
+                    message: `Event configuration is valid (fired ${target.event_prefix}_test)`,
+                };
+            case 401:
+                return {
+                    success: false,
+                    message: "Invalid auth token",
+                };
+            case 404:
+                return {
+                    success: false,
+                    message: "Incorrect base URL",
+                };
+            default:
+                return {
+                    success: false,
+                    message: "Unexpected error: HTTP " + status,
+                };
+        }
+    } catch (error) {
+        return {
+            success: false,
+            message: "Unexpected error: " + error,
+        };
+    }
+}
+
+/**
+ * Tests the MQTT broker connection by publishing the discovery config of the sensor
+ * @param config - Configuration object
+ * @param target - Target containing the MQTT settings
+ * @returns Promise that resolves to test result
+ */
+async function testConnectionMqtt(config: Config, target: Target): Promise<TestResult> {
+    // Without a Last Will, so the test does not mark the sensor of the background worker offline
+    const client = createTargetMqttClient(target, false);
+    try {
+        await withRequestLog(target, "CONNECT", target.mqtt_url.trim(), () => client.connect());
+
+        const discovery = getMqttDiscovery(config, target);
+        await publishMqtt(target, client, { topic: discovery.topic, payload: JSON.stringify(discovery.payload), retain: true, qos: 1 });
+
+        return {
+            success: true,
+            message: "MQTT configuration is valid (published discovery for binary_sensor.google_meet)",
+        };
+    } catch (error) {
+        return {
+            success: false,
+            message: "MQTT test failed: " + error,
+        };
+    } finally {
+        client.close();
+    }
+}
+
+/**
+ * Tests the connection to a Home Assistant target based on its method
  * @param config - Configuration object
+ * @param target - Target to test
  * @returns Promise that resolves to test result
  */
-export async function testConnection(config: Config): Promise<TestResult> {
-    if (config.method === "webhook") {
-        return await testConnectionWebhook(config);
+export async function testConnection(config: Config, target: Target): Promise<TestResult> {
+    if (target.method === "webhook") {
+        return await testConnectionWebhook(config, target);
+    } else if (target.method === "event") {
+        return await testConnectionEvent(config, target);
+    } else if (target.method === "mqtt") {
+        return await testConnectionMqtt(config, target);
     } else {
-        return await testConnectionAPI(config);
+        return await testConnectionAPI(target);
     }
 }
\ No newline at end of file
@@ -0,0 +1,270 @@
+/**
+ * Local meeting history for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This module records every meeting session detected by the background worker in
+ * `chrome.storage.local`, so the options page can show how much of the week is spent in
+ * calls. Nothing leaves the browser unless the user exports it.
+ *
+ * STATISTICS:
+ * - Daily totals of the last 7 days and weekly totals of the last 4 weeks (weeks start on Monday)
+ * - Longest meeting
+ * - Back-to-back streaks: meetings starting less than 5 minutes after the previous one ended
+ *
+ * METHODS:
+ * - getSessions(): Gets the recorded sessions, oldest first
+ * - recordSession(): Records a finished session and drops the ones past the retention period
+ * - clearHistory(): Removes every recorded session
+ * - getHistoryStats(): Computes the totals, longest meeting and streaks of the sessions
+ * - getDailyTotals(): Computes the time spent in meetings since local midnight
+ * - sessionsToCsv(): Exports the sessions as CSV
+ *
+ * INTERFACES:
+ * - MeetingSession: Meeting from joining to leaving the call
+ * - MeetingStreak: Back-to-back meetings
+ * - HistoryTotal: Time spent in meetings during a day or week
+ * - HistoryStats: Statistics shown in the options page
+ * - DailyTotals: Time spent in meetings since local midnight
+ */
+
+// Key of the history in chrome.storage.local
+const HISTORY_KEY = "history";
+
+// Longest break between two meetings still counting as back-to-back
+const BACK_TO_BACK_GAP = 5 * 60 * 1000;
+
+// History changes run one after another, so no session is lost
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Meeting from joining to leaving the call
+ */
+export interface MeetingSession {
+    /** When the call started (milliseconds since epoch) */
+    start: number;
+    /** When the call ended (milliseconds since epoch) */
+    end: number;
+    /** Code of the meeting, or null if unknown */
+    meetingCode: string | null;
+    /** Title of the meeting, or null if it has none */
+    meetingTitle: string | null;
+}
+
+/**
+ * Back-to-back meetings
+ */
+export interface MeetingStreak {
+    /** When the first meeting started (milliseconds since epoch) */
+    start: number;
+    /** When the last meeting ended (milliseconds since epoch) */
+    end: number;
+    /** Number of meetings */
+    count: number;
+}
+
+/**
+ * Time spent in meetings during a day or week
+ */
+export interface HistoryTotal {
+    /** First day of the period, "YYYY-MM-DD" in local time */
+    date: string;
+    /** Time spent in meetings, in milliseconds */
+    duration: number;
+    /** Number of meetings */
+    count: number;
+}
+
+/**
+ * Statistics of the recorded sessions
+ */
+export interface HistoryStats {
+    /** Totals of the last 7 days, oldest first */
+    days: HistoryTotal[];
+    /** Totals of the last 4 weeks, oldest first */
+    weeks: HistoryTotal[];
+    /** Longest meeting, or null without sessions */
+    longest: MeetingSession | null;
+    /** Back-to-back streaks of at least two meetings, oldest first */
+    streaks: MeetingStreak[];
+}
+
+/**
+ * Time spent in meetings since local midnight
+ */
+export interface DailyTotals {
+    /** Minutes spent in meetings today */
+    minutes: number;
+    /** Number of meetings today */
+    count: number;
+}
+
+/**
+ * Gets the recorded sessions
+ * @returns Promise that resolves to the sessions, oldest first
+ */
+export async function getSessions(): Promise<MeetingSession[]> {
+    const stored = await chrome.storage.local.get(HISTORY_KEY);
+    return stored[HISTORY_KEY] ?? [];
+}
+
+/**
+ * Reads, changes and writes the history without racing other changes
+ * @param change - Returns the new sessions
+ */
+function changeHistory(change: (sessions: MeetingSession[]) => MeetingSession[]): Promise<void> {
+    const next = pendingChange.then(async () => {
+        const sessions = change(await getSessions());
+        await chrome.storage.local.set({ [HISTORY_KEY]: sessions });
+    });
+
+    // A failed change must not block the following ones
+    pendingChange = next.catch(() => undefined);
+    return next;
+}
+
+/**
+ * Records a finished session and drops the sessions older than the retention period
+ * @param session - Session to record
+ * @param retentionDays - Number of days sessions are kept
+ */
+export async function recordSession(session: MeetingSession, retentionDays: number) {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    await changeHistory((sessions) => [...sessions, session].filter((item) => item.end >= cutoff));
+}
+
+/**
+ * Removes every recorded session
+ */
+export async function clearHistory() {
+    await changeHistory(() => []);
+}
+
+/**
+ * Formats a date as "YYYY-MM-DD" in local time
+ * @param date - Date to format
+ * @returns The formatted date
+ */
+function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Adds up the sessions starting within a period
+ * @param sessions - Recorded sessions
+ * @param start - First day of the period, at local midnight
+ * @param days - Length of the period in days
+ * @returns The total of the period
+ */
+function getTotal(sessions: MeetingSession[], start: Date, days: number): HistoryTotal {
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + days);
+    const matching = sessions.filter((session) => session.start >= start.getTime() && session.start < end.getTime());
+
+    return {
+        date: toDateKey(start),
+        duration: matching.reduce((total, session) => total + session.end - session.start, 0),
+        count: matching.length,
+    };
+}
+
+/**
+ * Computes the totals, longest meeting and streaks of the recorded sessions
+ *
+ * Sessions count towards the day they started on, in local time.
+ *
+ * @param sessions - Recorded sessions, oldest first
+ * @param now - Current date (default: now)
+ * @returns The statistics
+ */
+export function getHistoryStats(sessions: MeetingSession[], now: Date = new Date()): HistoryStats {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    const days: HistoryTotal[] = [];
+    for (let offset = 6; offset >= 0; offset--) {
+        days.push(getTotal(sessions, new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset), 1));
+    }
+
+    // getDay() is 0 on Sunday, and weeks start on Monday
+    const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (today.getDay() + 6) % 7);
+    const weeks: HistoryTotal[] = [];
+    for (let offset = 3; offset >= 0; offset--) {
+        weeks.push(getTotal(sessions, new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() - offset * 7), 7));
+    }
+
+    let longest: MeetingSession | null = null;
+    for (const session of sessions) {
+        if (longest === null || session.end - session.start > longest.end - longest.start) {
+            longest = session;
+        }
+    }
+
+    const streaks: MeetingStreak[] = [];
+    let current: MeetingStreak | null = null;
+    for (const session of sessions) {
+        if (current !== null && session.start - current.end <= BACK_TO_BACK_GAP) {
+            current = { start: current.start, end: Math.max(current.end, session.end), count: current.count + 1 };
+        } else {
+            if (current !== null && current.count > 1) {
+                streaks.push(current);
+            }
+            current = { start: session.start, end: session.end, count: 1 };
+        }
+    }
+    if (current !== null && current.count > 1) {
+        streaks.push(current);
+    }
+
+    return { days, weeks, longest, streaks };
+}
+
+/**
+ * Computes the time spent in meetings since local midnight
+ *
+ * Unlike the history statistics, meetings running over midnight only count their part
+ * after midnight, so the totals start again from zero every day.
+ *
+ * @param sessions - Recorded sessions
+ * @param ongoingStart - Start of the meeting in progress, or null outside of meetings
+ * @param now - Current date (default: now)
+ * @returns The totals of today
+ */
+export function getDailyTotals(sessions: MeetingSession[], ongoingStart: number | null, now: Date = new Date()): DailyTotals {
+    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+
+    const periods = sessions.map((session) => ({ start: session.start, end: session.end }));
+    if (ongoingStart !== null) {
+        periods.push({ start: ongoingStart, end: now.getTime() });
+    }
+
+    const today = periods.filter((period) => period.end > midnight);
+    const duration = today.reduce((total, period) => total + period.end - Math.max(period.start, midnight), 0);
+
+    return { minutes: Math.floor(duration / 60000), count: today.length };
+}
+
+/**
+ * Quotes a CSV value when needed
+ * @param value - Value to quote
+ * @returns The CSV field
+ */
+function toCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Exports the sessions as CSV, one meeting per row
+ * @param sessions - Sessions to export
+ * @returns The CSV text
+ */
+export function sessionsToCsv(sessions: MeetingSession[]): string {
+    const rows = sessions.map((session) => [
+        new Date(session.start).toISOString(),
+        new Date(session.end).toISOString(),
+        String(Math.round((session.end - session.start) / 1000)),
+        session.meetingCode ?? "",
+        session.meetingTitle ?? "",
+    ].map(toCsvField).join(","));
+
+    return ["start,end,duration_seconds,meeting_code,meeting_title", ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,255 @@
+/**
+ * Google Meet call lifecycle detection for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This module describes where the user is in a Google Meet call (pre-join lobby,
+ * waiting to be admitted, in the call, or on the "you left" screen) and provides the
+ * DOM heuristics used by the content script to figure it out. The background worker
+ * uses the same types to interpret the reports it receives.
+ *
+ * Meet does not expose a public API for this, so detection relies on stable `jsname`
+ * attributes first and falls back to English labels and screen texts.
+ *
+ * METHODS:
+ * - detectCallPhase(): Inspects a Meet document and returns the current call phase
+ * - isInCall(): Checks whether a meeting state means the user is in a call
+ * - getMeetingCode(): Extracts the meeting code from a Meet tab URL
+ * - getMeetingTitle(): Extracts the meeting title from a Meet tab title
+ * - nextMeetingState(): Computes the overall meeting state from the phases of all Meet tabs
+ * - detectMediaState(): Inspects a Meet document and returns the microphone/camera/presenting state
+ *
+ * TYPES:
+ * - CallPhase: Union type for "lobby" | "joining" | "in_call" | "left"
+ * - MeetingState: Union type for "idle" | "lobby" | "in_call" | "presenting" | "ended"
+ * - MeetingStatus: Overall meeting state plus microphone/camera/presenting state
+ * - MediaState: Whether the microphone and camera are on and whether the user is presenting
+ * - CallStatusMessage: Message sent by the content script to the background worker
+ */
+
+/**
+ * URL pattern matching Google Meet meeting tabs (e.g. https://meet.google.com/abc-defg-hij)
+ */
+export const MEET_TAB_URL = "https://meet.google.com/*-*-*";
+
+/**
+ * Phases of a Google Meet call as seen from the user's tab
+ */
+export type CallPhase = "lobby" | "joining" | "in_call" | "left";
+
+/**
+ * Overall meeting state across all Google Meet tabs
+ *
+ * - idle: no meeting in progress
+ * - lobby: on the pre-join screen or waiting to be admitted
+ * - in_call: in a call
+ * - presenting: in a call and presenting
+ * - ended: on the "You left the meeting" screen right after a call
+ */
+export type MeetingState = "idle" | "lobby" | "in_call" | "presenting" | "ended";
+
+/**
+ * All meeting states, in display order
+ */
+export const MEETING_STATES: MeetingState[] = ["idle", "lobby", "in_call", "presenting", "ended"];
+
+/**
+ * Microphone, camera and screen sharing state of a Google Meet tab
+ */
+export interface MediaState {
+    /** Whether the microphone is live (unmuted) */
+    microphone: boolean;
+    /** Whether the camera is on */
+    camera: boolean;
+    /** Whether the user is presenting (sharing their screen, a window or a tab) */
+    presenting: boolean;
+}
+
+/**
+ * Meeting status published to Home Assistant
+ */
+export interface MeetingStatus {
+    /** Overall meeting state */
+    state: MeetingState;
+    /** Microphone, camera and presenting state (all off outside of calls) */
+    media: MediaState;
+    /** Code of the current meeting (e.g. "abc-defg-hij"), or null outside of meetings */
+    meetingCode: string | null;
+    /** When the current call started (milliseconds since epoch), or null outside of calls */
+    startedAt: number | null;
+    /** Title of the current meeting (e.g. "Weekly sync"), or null if it has none or outside of meetings */
+    meetingTitle: string | null;
+    /** Number of open Google Meet tabs */
+    tabCount: number;
+}
+
+/**
+ * Message sent by the content script whenever the call status of its tab changes
+ */
+export interface CallStatusMessage {
+    type: "call-status";
+    /** Current call phase of the sending tab */
+    phase: CallPhase;
+    /** Whether the microphone is live, or null if the toggle could not be found */
+    microphone: boolean | null;
+    /** Whether the camera is on, or null if the toggle could not be found */
+    camera: boolean | null;
+    /** Whether the user is presenting */
+    presenting: boolean;
+}
+
+/** Elements only rendered while the user is inside the call (the "Leave call" button) */
+const IN_CALL_SELECTORS = [
+    '[jsname="CQylAd"]',
+    'button[aria-label^="Leave call"]',
+];
+
+/** Elements only rendered on the pre-join screen (the "Join now" / "Ask to join" buttons) */
+const LOBBY_SELECTORS = [
+    '[jsname="Qx7uuf"]',
+    '[jsname="lKxP2d"]',
+];
+
+/** Microphone toggle button; `data-is-muted` reflects whether it is off */
+const MICROPHONE_SELECTOR = '[data-is-muted][aria-label*="microphone" i]';
+
+/** Camera toggle button; `data-is-muted` reflects whether it is off */
+const CAMERA_SELECTOR = '[data-is-muted][aria-label*="camera" i]';
+
+/** Elements only rendered while the user is presenting (the "Stop presenting" button) */
+const PRESENTING_SELECTORS = [
+    'button[aria-label^="Stop presenting"]',
+    '[aria-label^="You are presenting"]',
+];
+
+/** Texts shown while the user is presenting */
+const PRESENTING_TEXT = /You are presenting|You're presenting to everyone/i;
+
+/** Texts shown once the user is no longer in the call */
+const LEFT_TEXT = /You left the meeting|You've been removed from the meeting|Your meeting has ended|You can't join this video call|Someone in the call denied your request to join|No one responded to your request to join/i;
+
+/** Texts shown while the user is waiting to be admitted */
+const JOINING_TEXT = /Asking to be let in|Asking to join|You'll join the call when someone lets you in/i;
+
+/**
+ * Detects the call phase of a Google Meet document
+ * @param doc - Document of a Google Meet tab
+ * @returns The current call phase, or null if the page is in an unknown state
+ */
+export function detectCallPhase(doc: Document): CallPhase | null {
+    if (IN_CALL_SELECTORS.some((selector) => doc.querySelector(selector) !== null)) {
+        return "in_call";
+    }
+
+    const text = doc.body?.innerText ?? "";
+    if (LEFT_TEXT.test(text)) {
+        return "left";
+    }
+    if (JOINING_TEXT.test(text)) {
+        return "joining";
+    }
+
+    if (LOBBY_SELECTORS.some((selector) => doc.querySelector(selector) !== null)) {
+        return "lobby";
+    }
+
+    return null;
+}
+
+/**
+ * Reads whether a Meet media toggle button is on
+ * @param doc - Document of a Google Meet tab
+ * @param selector - Selector of the toggle button
+ * @returns True if the device is on, false if muted, or null if the button was not found
+ */
+function readToggle(doc: Document, selector: string): boolean | null {
+    const button = doc.querySelector(selector);
+    if (button === null) {
+        return null;
+    }
+
+    return button.getAttribute("data-is-muted") === "false";
+}
+
+/**
+ * Checks whether the user is presenting in a Google Meet document
+ * @param doc - Document of a Google Meet tab
+ * @returns True if the user is presenting
+ */
+function isPresenting(doc: Document): boolean {
+    if (PRESENTING_SELECTORS.some((selector) => doc.querySelector(selector) !== null)) {
+        return true;
+    }
+
+    return PRESENTING_TEXT.test(doc.body?.innerText ?? "");
+}
+
+/**
+ * Detects the microphone, camera and screen sharing state of a Google Meet document
+ * @param doc - Document of a Google Meet tab
+ * @returns The state of each device, or null for devices whose toggle was not found
+ */
+export function detectMediaState(doc: Document): Pick<CallStatusMessage, "microphone" | "camera" | "presenting"> {
+    return {
+        microphone: readToggle(doc, MICROPHONE_SELECTOR),
+        camera: readToggle(doc, CAMERA_SELECTOR),
+        presenting: isPresenting(doc),
+    };
+}
+
+/**
+ * Extracts the meeting code from a Google Meet tab URL
+ * @param url - Tab URL, e.g. https://meet.google.com/abc-defg-hij?authuser=0
+ * @returns The meeting code (e.g. "abc-defg-hij"), or null if the URL is not a meeting
+ */
+export function getMeetingCode(url: string | undefined): string | null {
+    const match = url?.match(/^https:\/\/meet\.google\.com\/([a-z]+-[a-z]+-[a-z]+)(?:[/?#]|$)/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Extracts the meeting title from a Google Meet tab title
+ * @param title - Tab title, e.g. "Meet - Weekly sync"
+ * @param meetingCode - Meeting code of the tab, shown as title by meetings without one
+ * @returns The meeting title (e.g. "Weekly sync"), or null if the meeting has none
+ */
+export function getMeetingTitle(title: string | undefined, meetingCode: string | null): string | null {
+    const name = (title ?? "").replace(/^Meet\s*[-–—:]\s*/, "").trim();
+    return name !== "" && name !== "Meet" && name !== meetingCode ? name : null;
+}
+
+/**
+ * Checks whether a meeting state means the user is in a call
+ * @param state - Meeting state
+ * @returns True when in a call (presenting included)
+ */
+export function isInCall(state: MeetingState): boolean {
+    return state === "in_call" || state === "presenting";
+}
+
+/**
+ * Computes the overall meeting state from the phases of all open Meet tabs
+ *
+ * A call in any tab wins over the lobby, which wins over the post-call screen. The
+ * "ended" state is only entered right after a call, so a rejected knock on the
+ * lobby goes straight back to "idle".
+ *
+ * @param previous - Previous meeting state
+ * @param tabs - Call phase and presenting state of each open Meet tab
+ * @returns The new meeting state
+ */
+export function nextMeetingState(previous: MeetingState, tabs: Array<{ phase: CallPhase; presenting: boolean }>): MeetingState {
+    if (tabs.some((tab) => tab.phase === "in_call" && tab.presenting)) {
+        return "presenting";
+    }
+    if (tabs.some((tab) => tab.phase === "in_call")) {
+        return "in_call";
+    }
+    if (tabs.some((tab) => tab.phase === "lobby" || tab.phase === "joining")) {
+        return "lobby";
+    }
+    if (tabs.some((tab) => tab.phase === "left") && (isInCall(previous) || previous === "ended")) {
+        return "ended";
+    }
+
+    return "idle";
+}
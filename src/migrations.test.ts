@@ -0,0 +1,137 @@
+import { toConfig } from "./config";
+import { CONFIG_VERSION, getSchemaVersion, migrateConfig, MIGRATIONS, StoredConfig } from "./migrations";
+
+// Runs a single migration step
+const migrateTo = (version: number, stored: StoredConfig): StoredConfig => {
+    const migration = MIGRATIONS.find((item) => item.version === version);
+    if (migration === undefined) {
+        throw new Error(`No migration to version ${version}`);
+    }
+    return migration.migrate(stored);
+};
+
+// First target of migrated settings
+const firstTarget = (stored: StoredConfig): StoredConfig => (stored.targets as StoredConfig[])[0];
+
+// Settings saved before multiple targets were supported
+const legacySettings = (): StoredConfig => ({
+    method: "webhook",
+    host: "http://homeassistant.local:8123",
+    token: "secret",
+    entity_id: "input_boolean.in_meeting",
+    webhook_url: "http://homeassistant.local:8123/api/webhook/meet",
+    language: "fr",
+});
+
+describe("MIGRATIONS", () => {
+    it("numbers the steps in order, without gaps", () => {
+        expect(MIGRATIONS.map((migration) => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+        expect(CONFIG_VERSION).toBe(MIGRATIONS.length);
+    });
+});
+
+describe("version 1: move the connection settings into a target", () => {
+    it("turns the top-level connection settings into a single target", () => {
+        expect(migrateTo(1, legacySettings())).toEqual({
+            language: "fr",
+            targets: [{
+                id: "default",
+                name: "Home Assistant",
+                method: "webhook",
+                host: "http://homeassistant.local:8123",
+                token: "secret",
+                entity_id: "input_boolean.in_meeting",
+                webhook_url: "http://homeassistant.local:8123/api/webhook/meet",
+            }],
+        });
+    });
+
+    it("keeps the existing targets and drops stale connection settings", () => {
+        const targets = [{ id: "office", name: "Office", host: "http://office:8123" }];
+        expect(migrateTo(1, { targets, host: "http://old:8123", use_websocket: false })).toEqual({ targets });
+    });
+
+    it("adds no target to settings without connection details", () => {
+        expect(migrateTo(1, { language: "de" })).toEqual({ language: "de" });
+    });
+
+    it("does not change the given settings", () => {
+        const stored = legacySettings();
+        migrateTo(1, stored);
+        expect(stored).toEqual(legacySettings());
+    });
+});
+
+describe("version 2: fill in the target settings added since they were saved", () => {
+    it("adds the missing settings of each target", () => {
+        const migrated = migrateTo(2, { targets: [{ id: "default", name: "Home Assistant", method: "webhook" }] });
+        expect(firstTarget(migrated)).toMatchObject({
+            id: "default",
+            name: "Home Assistant",
+            enabled: true,
+            method: "webhook",
+            webhook_method: "POST",
+            webhook_headers: "",
+            event_prefix: "google_meet",
+            mqtt_state_topic: "google_meet/state",
+            minutes_today_entity_id: "",
+        });
+    });
+
+    it("keeps the saved settings of each target", () => {
+        const target = { id: "office", name: "Office", enabled: false, webhook_method: "PUT", use_websocket: false };
+        expect(firstTarget(migrateTo(2, { targets: [target] }))).toMatchObject(target);
+    });
+
+    it("leaves settings without targets unchanged", () => {
+        const stored = { language: "en" };
+        expect(migrateTo(2, stored)).toBe(stored);
+    });
+});
+
+describe("getSchemaVersion", () => {
+    it("treats settings saved before versions existed as version 0", () => {
+        expect(getSchemaVersion({})).toBe(0);
+        expect(getSchemaVersion({ schema_version: "2" })).toBe(0);
+        expect(getSchemaVersion({ schema_version: -1 })).toBe(0);
+    });
+
+    it("reads the stored version", () => {
+        expect(getSchemaVersion({ schema_version: 1 })).toBe(1);
+    });
+});
+
+describe("migrateConfig", () => {
+    it("upgrades unversioned settings to the current version", () => {
+        const migrated = migrateConfig(legacySettings());
+        expect(migrated.schema_version).toBe(CONFIG_VERSION);
+        expect(migrated.host).toBeUndefined();
+        expect(firstTarget(migrated)).toMatchObject({ id: "default", method: "webhook", webhook_method: "POST" });
+    });
+
+    it("only runs the steps newer than the stored version", () => {
+        // Version 1 settings keep their top-level keys, as the first step already ran
+        const migrated = migrateConfig({ schema_version: 1, host: "http://old:8123", targets: [{ id: "a", name: "A" }] });
+        expect(migrated.host).toBe("http://old:8123");
+        expect(firstTarget(migrated).webhook_method).toBe("POST");
+        expect(migrated.schema_version).toBe(CONFIG_VERSION);
+    });
+
+    it("leaves current settings unchanged", () => {
+        const stored = { schema_version: CONFIG_VERSION, targets: [] };
+        expect(migrateConfig(stored)).toBe(stored);
+    });
+
+    it("leaves settings saved by a newer version unchanged", () => {
+        const stored = { schema_version: CONFIG_VERSION + 1, targets: [], new_setting: true };
+        expect(migrateConfig(stored)).toBe(stored);
+    });
+
+    it("upgrades the settings when they are loaded", () => {
+        const config = toConfig(legacySettings());
+        expect(config.schema_version).toBe(CONFIG_VERSION);
+        expect(config.language).toBe("fr");
+        expect(config.targets).toHaveLength(1);
+        expect(config.targets[0]).toMatchObject({ id: "default", name: "Home Assistant", method: "webhook", token: "secret" });
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Configuration schema migrations for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * The settings are stored in `chrome.storage.sync` as plain objects, and their shape changed
+ * over time (e.g. the connection settings moved into targets). The stored configuration
+ * carries a schema version, and this module upgrades older shapes step by step to the
+ * current one, so each change of `Config` is applied exactly once and the settings it
+ * replaces are removed.
+ *
+ * Settings saved before versions existed are version 0. Migrations run in memory whenever
+ * the configuration is loaded, and are written back to storage when the extension is
+ * updated. A configuration saved by a newer version of the extension (synced from another
+ * computer) is left untouched.
+ *
+ * Changing the shape of `Config` or `Target` means adding a migration at the end of
+ * MIGRATIONS. Migrations must not depend on the current defaults, which keep changing: each
+ * one writes the values of its own version.
+ *
+ * METHODS:
+ * - getSchemaVersion(): Gets the schema version of stored settings
+ * - migrateConfig(): Upgrades stored settings to the current schema version
+ *
+ * TYPES:
+ * - StoredConfig: Settings as stored, in any schema version
+ * - Migration: Step upgrading stored settings to the next schema version
+ */
+
+/**
+ * Settings as stored in chrome.storage.sync or in a saved profile, in any schema version
+ */
+export type StoredConfig = Record<string, unknown>;
+
+/**
+ * Step upgrading stored settings to the next schema version
+ */
+export interface Migration {
+    /** Schema version of the settings returned by the step */
+    version: number;
+    /** What the step changes, shown in the logs */
+    description: string;
+    /** Returns the upgraded settings, without changing the given ones */
+    migrate: (stored: StoredConfig) => StoredConfig;
+}
+
+// Key of the schema version in the stored settings
+const SCHEMA_VERSION_KEY = "schema_version";
+
+/**
+ * Settings stored at the top level before multiple targets were supported
+ */
+export const LEGACY_TARGET_KEYS = [
+    "method",
+    "host",
+    "token",
+    "entity_id",
+    "microphone_entity_id",
+    "camera_entity_id",
+    "presenting_entity_id",
+    "meeting_state_entity_id",
+    "webhook_url",
+    "event_prefix",
+    "use_websocket",
+];
+
+// Target settings of schema version 2, besides the ID and name
+const TARGET_DEFAULTS_V2 = {
+    enabled: true,
+    method: "api",
+    host: "",
+    token: "",
+    entity_id: "input_boolean.in_meeting",
+    microphone_entity_id: "",
+    camera_entity_id: "",
+    presenting_entity_id: "",
+    meeting_state_entity_id: "",
+    minutes_today_entity_id: "",
+    meetings_today_entity_id: "",
+    webhook_url: "",
+    webhook_method: "POST",
+    webhook_headers: "",
+    webhook_body_template: "",
+    event_prefix: "google_meet",
+    use_websocket: true,
+    mqtt_url: "",
+    mqtt_username: "",
+    mqtt_password: "",
+    mqtt_state_topic: "google_meet/state",
+    mqtt_availability_topic: "google_meet/availability",
+    mqtt_discovery_prefix: "homeassistant",
+};
+
+/**
+ * Version 1: moves the connection settings saved before multiple targets were supported
+ * into a single target, and drops them from the top level
+ */
+function moveSettingsToTarget(stored: StoredConfig): StoredConfig {
+    const migrated: StoredConfig = {};
+    const target: StoredConfig = { id: "default", name: "Home Assistant" };
+
+    for (const [key, value] of Object.entries(stored)) {
+        if (LEGACY_TARGET_KEYS.includes(key)) {
+            target[key] = value;
+        } else {
+            migrated[key] = value;
+        }
+    }
+
+    // Settings saved with targets already only need the stale keys removed
+    if (migrated.targets === undefined && Object.keys(target).length > 2) {
+        migrated.targets = [target];
+    }
+
+    return migrated;
+}
+
+/**
+ * Version 2: fills in the target settings added after the targets were saved
+ * (methods, media and statistics entities, webhook request, MQTT topics)
+ */
+function fillTargetSettings(stored: StoredConfig): StoredConfig {
+    if (!Array.isArray(stored.targets)) {
+        return stored;
+    }
+
+    return {
+        ...stored,
+        targets: stored.targets.map((target: StoredConfig) => ({ ...TARGET_DEFAULTS_V2, ...target })),
+    };
+}
+
+/**
+ * Migrations, in schema version order
+ */
+export const MIGRATIONS: Migration[] = [
+    { version: 1, description: "Move the connection settings into a target", migrate: moveSettingsToTarget },
+    { version: 2, description: "Fill in the target settings added since they were saved", migrate: fillTargetSettings },
+];
+
+/**
+ * Current schema version, written with the settings
+ */
+export const CONFIG_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Gets the schema version of stored settings
+ * @param stored - Stored settings
+ * @returns The schema version, 0 for settings saved before versions existed
+ */
+export function getSchemaVersion(stored: StoredConfig): number {
+    const version = stored[SCHEMA_VERSION_KEY];
+    return typeof version === "number" && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Upgrades stored settings to the current schema version
+ * @param stored - Stored settings, which are not changed
+ * @returns The upgraded settings with the current schema version, or the given settings if
+ * they are current or were saved by a newer version of the extension
+ */
+export function migrateConfig(stored: StoredConfig): StoredConfig {
+    const version = getSchemaVersion(stored);
+    if (version >= CONFIG_VERSION) {
+        return stored;
+    }
+
+    const migrated = MIGRATIONS
+        .filter((migration) => migration.version > version)
+        .reduce((current, migration) => migration.migrate(current), stored);
+
+    return { ...migrated, [SCHEMA_VERSION_KEY]: CONFIG_VERSION };
+}
@@ -0,0 +1,274 @@
+import { createMqttClient, MqttClientOptions } from "./mqtt";
+
+/**
+ * Stand-in for the WebSocket of an MQTT broker, driven by the tests
+ */
+class FakeBrokerSocket {
+    binaryType = "blob";
+    sent: number[][] = [];
+    closed = false;
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: ArrayBuffer }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    constructor(readonly url: string, readonly protocol: string) {}
+
+    send(data: Uint8Array) {
+        this.sent.push(Array.from(data));
+    }
+
+    close() {
+        if (!this.closed) {
+            this.closed = true;
+            this.onclose?.();
+        }
+    }
+
+    receive(bytes: number[]) {
+        this.onmessage?.({ data: new Uint8Array(bytes).buffer });
+    }
+
+    lastSent(): number[] {
+        return this.sent[this.sent.length - 1];
+    }
+}
+
+// Bytes of an ASCII string prefixed with its length
+const mqttString = (value: string): number[] => [0, value.length, ...Array.from(value).map((char) => char.charCodeAt(0))];
+
+// Creates a client whose sockets are recorded, oldest first
+const setup = (options: Partial<MqttClientOptions> = {}) => {
+    const sockets: FakeBrokerSocket[] = [];
+    const client = createMqttClient({
+        url: "ws://mosquitto.local:9001",
+        clientId: "c",
+        createSocket: (url, protocol) => {
+            const socket = new FakeBrokerSocket(url, protocol);
+            sockets.push(socket);
+            return socket as unknown as WebSocket;
+        },
+        ...options,
+    });
+    return { client, sockets };
+};
+
+// Opens a connection the broker accepts
+const connect = async (options: Partial<MqttClientOptions> = {}) => {
+    const { client, sockets } = setup(options);
+    const connected = client.connect();
+    sockets[0].onopen?.();
+    sockets[0].receive([0x20, 2, 0, 0]);
+    await connected;
+    return { client, socket: sockets[0] };
+};
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("CONNECT", () => {
+    it("opens an mqtt WebSocket and sends a clean session CONNECT", () => {
+        const { client, sockets } = setup({ keepAlive: 60 });
+        client.connect();
+
+        expect(sockets[0].url).toBe("ws://mosquitto.local:9001");
+        expect(sockets[0].protocol).toBe("mqtt");
+        expect(sockets[0].binaryType).toBe("arraybuffer");
+
+        sockets[0].onopen?.();
+        expect(sockets[0].lastSent()).toEqual([
+            0x10, 13,
+            ...mqttString("MQTT"), 4, 0x02, 0, 60,
+            ...mqttString("c"),
+        ]);
+    });
+
+    it("adds the Last Will, username and password", () => {
+        const { client, sockets } = setup({
+            keepAlive: 300,
+            username: "user",
+            password: "pass",
+            will: { topic: "a", payload: "offline", retain: true, qos: 1 },
+        });
+        client.connect();
+        sockets[0].onopen?.();
+
+        const body = [
+            ...mqttString("MQTT"), 4,
+            // Clean session, will, will QoS 1, will retain, password and username
+            0x02 | 0x04 | 0x08 | 0x20 | 0x40 | 0x80,
+            300 >> 8, 300 & 0xff,
+            ...mqttString("c"),
+            ...mqttString("a"),
+            ...mqttString("offline"),
+            ...mqttString("user"),
+            ...mqttString("pass"),
+        ];
+        expect(sockets[0].lastSent()).toEqual([0x10, body.length, ...body]);
+    });
+
+    it("resolves once the broker accepts the connection", async () => {
+        const { client } = await connect();
+        expect(client.isConnected()).toBe(true);
+    });
+
+    it("handles a CONNACK split over several frames", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        sockets[0].onopen?.();
+
+        sockets[0].receive([0x20]);
+        sockets[0].receive([2, 0]);
+        expect(client.isConnected()).toBe(false);
+        sockets[0].receive([0]);
+
+        await connected;
+        expect(client.isConnected()).toBe(true);
+    });
+
+    it.each([
+        [1, "Unacceptable protocol version"],
+        [2, "Client identifier rejected"],
+        [3, "Broker unavailable"],
+        [4, "Bad username or password"],
+        [5, "Not authorized"],
+        [9, "return code 9"],
+    ])("rejects CONNACK return code %i with the reason", async (returnCode, reason) => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        sockets[0].onopen?.();
+        sockets[0].receive([0x20, 2, 0, returnCode]);
+
+        await expect(connected).rejects.toThrow(`MQTT connection refused: ${reason}`);
+        expect(sockets[0].closed).toBe(true);
+        expect(client.isConnected()).toBe(false);
+    });
+
+    it("times out a broker that never answers CONNECT and closes the socket", async () => {
+        const { client, sockets } = setup({ connectTimeout: 5000 });
+        const connected = client.connect();
+        sockets[0].onopen?.();
+
+        jest.advanceTimersByTime(5000);
+        await expect(connected).rejects.toThrow("Timed out connecting to MQTT broker");
+        expect(sockets[0].closed).toBe(true);
+
+        // Later callers open a new connection instead of waiting for the old one
+        const retried = client.connect();
+        expect(sockets).toHaveLength(2);
+        sockets[1].onopen?.();
+        sockets[1].receive([0x20, 2, 0, 0]);
+        await expect(retried).resolves.toBeUndefined();
+    });
+
+    it("rejects when the socket closes before CONNACK", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        sockets[0].close();
+
+        await expect(connected).rejects.toThrow("Could not connect to MQTT broker");
+    });
+});
+
+describe("PUBLISH", () => {
+    it("sends QoS 0 messages with the retain flag and resolves right away", async () => {
+        const { client, socket } = await connect();
+
+        await client.publish({ topic: "t", payload: "ON", retain: true });
+        expect(socket.lastSent()).toEqual([0x31, 5, ...mqttString("t"), 0x4f, 0x4e]);
+    });
+
+    it.each([
+        // Topic "t" takes 3 bytes of the remaining length
+        [127 - 3, [127]],
+        [128 - 3, [0x80, 0x01]],
+        [203 - 3, [0xcb, 0x01]],
+        [16383 - 3, [0xff, 0x7f]],
+        [16384 - 3, [0x80, 0x80, 0x01]],
+    ])("encodes a %i byte payload with the remaining length %p", async (payloadLength, remainingLength) => {
+        const { client, socket } = await connect();
+
+        await client.publish({ topic: "t", payload: "x".repeat(payloadLength) });
+        const packet = socket.lastSent();
+        expect(packet.slice(1, 1 + remainingLength.length)).toEqual(remainingLength);
+        expect(packet.length).toBe(1 + remainingLength.length + 3 + payloadLength);
+    });
+
+    it("matches each PUBACK to its QoS 1 publish by packet ID", async () => {
+        const { client, socket } = await connect();
+        const first = jest.fn();
+        const second = jest.fn();
+
+        client.publish({ topic: "t", payload: "1", qos: 1 }).then(first);
+        expect(socket.lastSent()).toEqual([0x32, 6, ...mqttString("t"), 0, 1, 0x31]);
+        client.publish({ topic: "t", payload: "2", qos: 1 }).then(second);
+        expect(socket.lastSent()).toEqual([0x32, 6, ...mqttString("t"), 0, 2, 0x32]);
+
+        socket.receive([0x40, 2, 0, 2]);
+        await Promise.resolve();
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalled();
+
+        socket.receive([0x40, 2, 0, 1]);
+        await Promise.resolve();
+        expect(first).toHaveBeenCalled();
+    });
+
+    it("rejects a QoS 1 publish the broker does not acknowledge in time", async () => {
+        const { client, socket } = await connect({ ackTimeout: 5000 });
+        const published = client.publish({ topic: "t", payload: "ON", qos: 1 });
+
+        jest.advanceTimersByTime(5000);
+        await expect(published).rejects.toThrow("MQTT broker did not acknowledge the message");
+
+        // A late PUBACK is ignored
+        socket.receive([0x40, 2, 0, 1]);
+        expect(client.isConnected()).toBe(true);
+    });
+
+    it("rejects the pending QoS 1 publishes when the connection is lost", async () => {
+        const { client, socket } = await connect();
+        const published = client.publish({ topic: "t", payload: "ON", qos: 1 });
+
+        socket.close();
+        await expect(published).rejects.toThrow("Connection to MQTT broker lost");
+    });
+
+    it("rejects publishes before connecting", async () => {
+        const { client } = setup();
+        await expect(client.publish({ topic: "t", payload: "ON" })).rejects.toThrow("Not connected to MQTT broker");
+    });
+});
+
+describe("keep alive", () => {
+    it("pings the broker and closes the connection when a ping goes unanswered", async () => {
+        const { client, socket } = await connect({ keepAlive: 60 });
+
+        jest.advanceTimersByTime(60000);
+        expect(socket.lastSent()).toEqual([0xc0, 0]);
+
+        socket.receive([0xd0, 0]);
+        jest.advanceTimersByTime(60000);
+        expect(socket.closed).toBe(false);
+
+        jest.advanceTimersByTime(60000);
+        expect(socket.closed).toBe(true);
+        expect(client.isConnected()).toBe(false);
+    });
+
+    it("sends DISCONNECT when closed gracefully", async () => {
+        const { client, socket } = await connect();
+
+        client.close();
+        expect(socket.lastSent()).toEqual([0xe0, 0]);
+        expect(socket.closed).toBe(true);
+    });
+});
@@ -0,0 +1,398 @@
+/**
+ * MQTT over WebSocket client for the Google Meet extension
+ *
+ * GOAL:
+ * This module lets the extension publish to an MQTT broker (e.g. Mosquitto with a
+ * WebSocket listener) for setups where Home Assistant's REST API is not exposed. It
+ * implements the small part of MQTT 3.1.1 the extension needs, so no library has to be
+ * bundled into the service worker.
+ *
+ * FEATURES:
+ * - CONNECT with username/password and a Last Will message
+ * - PUBLISH with QoS 0 or 1 (waiting for PUBACK, with a timeout) and the retain flag
+ * - Keep alive pings, dropping the connection if the broker stops answering
+ * - Injectable socket factory, so the client can run against a local stand-in broker
+ *
+ * METHODS:
+ * - createMqttClient(): Creates a client for an MQTT broker
+ *
+ * INTERFACES:
+ * - MqttMessage: Topic, payload and delivery options of a message
+ * - MqttClientOptions: Options used to create a client
+ * - MqttClient: Client returned by createMqttClient()
+ *
+ * ERROR HANDLING:
+ * - Refused connections reject connect() with the reason returned by the broker
+ * - A CONNACK that does not arrive in time closes the socket and rejects connect()
+ * - Pending QoS 1 publishes are rejected when the connection is lost, or when the broker
+ *   does not acknowledge them in time
+ */
+
+/**
+ * Message published to the broker
+ */
+export interface MqttMessage {
+    /** Topic to publish to */
+    topic: string;
+    /** Message payload */
+    payload: string;
+    /** Whether the broker keeps the message for future subscribers (default: false) */
+    retain?: boolean;
+    /** Quality of service: 0 (at most once) or 1 (at least once, default: 0) */
+    qos?: 0 | 1;
+}
+
+/**
+ * Options used to create an MQTT client
+ */
+export interface MqttClientOptions {
+    /** WebSocket URL of the broker, e.g. ws://mosquitto.local:9001 */
+    url: string;
+    /** Client identifier, unique on the broker */
+    clientId: string;
+    /** Optional username */
+    username?: string;
+    /** Optional password */
+    password?: string;
+    /** Message the broker publishes if the connection drops without a DISCONNECT */
+    will?: MqttMessage;
+    /** Time to wait for the broker to accept the connection in milliseconds (default: 10000) */
+    connectTimeout?: number;
+    /** Keep alive interval in seconds (default: 60) */
+    keepAlive?: number;
+    /** Time to wait for the PUBACK of a QoS 1 publish in milliseconds (default: 10000) */
+    ackTimeout?: number;
+    /** Creates the underlying socket (default: the global WebSocket constructor) */
+    createSocket?: (url: string, protocol: string) => WebSocket;
+}
+
+/**
+ * Client for an MQTT broker
+ */
+export interface MqttClient {
+    /** Opens the connection; resolves once the broker accepted it */
+    connect(): Promise<void>;
+    /** Publishes a message; resolves once sent (QoS 0) or acknowledged (QoS 1) */
+    publish(message: MqttMessage): Promise<void>;
+    /** Disconnects gracefully, so the Last Will message is not published */
+    close(): void;
+    /** Whether the connection is open and accepted */
+    isConnected(): boolean;
+}
+
+// Control packet types, already shifted into the first byte of the fixed header
+const CONNECT = 0x10;
+const CONNACK = 0x20;
+const PUBLISH = 0x30;
+const PUBACK = 0x40;
+const PINGREQ = 0xc0;
+const PINGRESP = 0xd0;
+const DISCONNECT = 0xe0;
+
+// Reasons returned in CONNACK packets
+const CONNACK_ERRORS: Record<number, string> = {
+    1: "Unacceptable protocol version",
+    2: "Client identifier rejected",
+    3: "Broker unavailable",
+    4: "Bad username or password",
+    5: "Not authorized",
+};
+
+/**
+ * Encodes a string prefixed with its length, as used throughout MQTT packets
+ * @param value - String to encode
+ * @returns The encoded bytes
+ */
+function encodeString(value: string): number[] {
+    const bytes = Array.from(new TextEncoder().encode(value));
+    return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+/**
+ * Builds a control packet from its first byte and its content
+ * @param header - First byte of the fixed header (packet type and flags)
+ * @param body - Variable header and payload
+ * @returns The packet
+ */
+function encodePacket(header: number, body: number[]): Uint8Array {
+    // The remaining length uses 7 bits per byte, with the high bit flagging more bytes
+    const length: number[] = [];
+    let remaining = body.length;
+    do {
+        let byte = remaining % 128;
+        remaining = Math.floor(remaining / 128);
+        if (remaining > 0) {
+            byte |= 0x80;
+        }
+        length.push(byte);
+    } while (remaining > 0);
+
+    return new Uint8Array([header, ...length, ...body]);
+}
+
+/**
+ * Builds a CONNECT packet
+ * @param options - Client options
+ * @param keepAlive - Keep alive interval in seconds
+ * @returns The packet
+ */
+function encodeConnect(options: MqttClientOptions, keepAlive: number): Uint8Array {
+    let flags = 0x02; // Clean session
+    const payload = encodeString(options.clientId);
+
+    if (options.will) {
+        flags |= 0x04 | ((options.will.qos ?? 0) << 3) | (options.will.retain ? 0x20 : 0);
+        payload.push(...encodeString(options.will.topic), ...encodeString(options.will.payload));
+    }
+    if (options.username) {
+        flags |= 0x80;
+        payload.push(...encodeString(options.username));
+    }
+    if (options.password) {
+        flags |= 0x40;
+        payload.push(...encodeString(options.password));
+    }
+
+    return encodePacket(CONNECT, [...encodeString("MQTT"), 4, flags, keepAlive >> 8, keepAlive & 0xff, ...payload]);
+}
+
+/**
+ * Creates a client for an MQTT broker reachable over WebSocket
+ * @param options - Connection options
+ * @returns The client (not connected yet)
+ */
+export function createMqttClient(options: MqttClientOptions): MqttClient {
+    const createSocket = options.createSocket ?? ((url: string, protocol: string) => new WebSocket(url, protocol));
+    const keepAlive = options.keepAlive ?? 60;
+    const connectTimeout = options.connectTimeout ?? 10000;
+    const ackTimeout = options.ackTimeout ?? 10000;
+
+    let socket: WebSocket | null = null;
+    let connected = false;
+    let connecting: Promise<void> | null = null;
+    let nextPacketId = 1;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let awaitingPong = false;
+
+    // Bytes received but not parsed yet, as packets may span several WebSocket frames
+    let buffer = new Uint8Array(0);
+
+    // QoS 1 publishes waiting for their PUBACK, keyed by packet ID
+    const pending = new Map<number, { resolve: () => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }>();
+
+    /**
+     * Stops the keep alive timer
+     */
+    function stopKeepAlive() {
+        if (pingTimer) {
+            clearInterval(pingTimer);
+            pingTimer = null;
+        }
+        awaitingPong = false;
+    }
+
+    /**
+     * Pings the broker periodically and drops the connection if a ping goes unanswered
+     */
+    function startKeepAlive() {
+        stopKeepAlive();
+
+        pingTimer = setInterval(() => {
+            if (awaitingPong) {
+                console.error("MQTT broker did not answer ping, closing the connection");
+                socket?.close();
+                return;
+            }
+
+            awaitingPong = true;
+            socket?.send(encodePacket(PINGREQ, []));
+        }, keepAlive * 1000);
+    }
+
+    /**
+     * Splits the received bytes into packets and handles the complete ones
+     */
+    function handleData(data: Uint8Array, onConnack: (returnCode: number) => void) {
+        const merged = new Uint8Array(buffer.length + data.length);
+        merged.set(buffer);
+        merged.set(data, buffer.length);
+        buffer = merged;
+
+        while (buffer.length >= 2) {
+            // Decode the remaining length, which takes 1 to 4 bytes
+            let length = 0;
+            let multiplier = 1;
+            let offset = 1;
+            let byte: number;
+            do {
+                if (offset >= buffer.length) {
+                    return;
+                }
+                byte = buffer[offset++];
+                length += (byte & 0x7f) * multiplier;
+                multiplier *= 128;
+            } while (byte & 0x80);
+
+            if (buffer.length < offset + length) {
+                return;
+            }
+
+            const type = buffer[0] & 0xf0;
+            const body = buffer.slice(offset, offset + length);
+            buffer = buffer.slice(offset + length);
+
+            switch (type) {
+                case CONNACK:
+                    onConnack(body[1]);
+                    break;
+                case PUBACK: {
+                    const packetId = (body[0] << 8) | body[1];
+                    const request = pending.get(packetId);
+                    if (request) {
+                        clearTimeout(request.timer);
+                        pending.delete(packetId);
+                        request.resolve();
+                    }
+                    break;
+                }
+                case PINGRESP:
+                    awaitingPong = false;
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Opens the connection and waits for the broker to accept it
+     */
+    function connect(): Promise<void> {
+        if (connected) {
+            return Promise.resolve();
+        }
+        if (connecting) {
+            return connecting;
+        }
+
+        connecting = new Promise<void>((resolve, reject) => {
+            let settled = false;
+            const current = createSocket(options.url, "mqtt");
+            current.binaryType = "arraybuffer";
+            socket = current;
+            buffer = new Uint8Array(0);
+
+            // A broker that accepts the socket but never answers CONNECT must not keep later callers waiting
+            const connackTimer = setTimeout(() => {
+                if (!settled) {
+                    settled = true;
+                    connecting = null;
+                    reject(new Error("Timed out connecting to MQTT broker"));
+                    current.close();
+                }
+            }, connectTimeout);
+
+            current.onopen = () => {
+                current.send(encodeConnect(options, keepAlive));
+            };
+
+            current.onmessage = (event) => {
+                handleData(new Uint8Array(event.data as ArrayBuffer), (returnCode) => {
+                    settled = true;
+                    connecting = null;
+                    clearTimeout(connackTimer);
+
+                    if (returnCode !== 0) {
+                        current.close();
+                        reject(new Error(`MQTT connection refused: ${CONNACK_ERRORS[returnCode] ?? "return code " + returnCode}`));
+                        return;
+                    }
+
+                    connected = true;
+                    startKeepAlive();
+                    resolve();
+                });
+            };
+
+            current.onclose = () => {
+                if (socket === current) {
+                    socket = null;
+                }
+                connected = false;
+                stopKeepAlive();
+
+                pending.forEach((request) => {
+                    clearTimeout(request.timer);
+                    request.reject(new Error("Connection to MQTT broker lost"));
+                });
+                pending.clear();
+
+                if (!settled) {
+                    settled = true;
+                    connecting = null;
+                    clearTimeout(connackTimer);
+                    reject(new Error("Could not connect to MQTT broker"));
+                }
+            };
+
+            current.onerror = () => {
+                // Errors are always followed by a close event, which handles them
+            };
+        });
+
+        return connecting;
+    }
+
+    /**
+     * Publishes a message
+     */
+    function publish(message: MqttMessage): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (!socket || !connected) {
+                reject(new Error("Not connected to MQTT broker"));
+                return;
+            }
+
+            const qos = message.qos ?? 0;
+            const body = encodeString(message.topic);
+
+            if (qos === 1) {
+                const packetId = nextPacketId;
+                nextPacketId = nextPacketId === 0xffff ? 1 : nextPacketId + 1;
+                body.push(packetId >> 8, packetId & 0xff);
+
+                // A broker that accepted the connection but never acknowledges must not block the update
+                const timer = setTimeout(() => {
+                    pending.delete(packetId);
+                    reject(new Error("MQTT broker did not acknowledge the message"));
+                }, ackTimeout);
+                pending.set(packetId, { resolve, reject, timer });
+            }
+
+            body.push(...Array.from(new TextEncoder().encode(message.payload)));
+            socket.send(encodePacket(PUBLISH | (qos << 1) | (message.retain ? 0x01 : 0), body));
+
+            if (qos === 0) {
+                resolve();
+            }
+        });
+    }
+
+    /**
+     * Disconnects gracefully
+     */
+    function close() {
+        stopKeepAlive();
+
+        if (socket && connected) {
+            socket.send(encodePacket(DISCONNECT, []));
+        }
+        socket?.close();
+        connected = false;
+    }
+
+    return {
+        connect,
+        publish,
+        close,
+        isConnected: () => connected,
+    };
+}
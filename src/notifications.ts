@@ -0,0 +1,122 @@
+/**
+ * Delivery failure notifications for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * The orange "!" and amber "↻" badges are easy to miss, so this module shows a desktop
+ * notification when an update could not be delivered to a target after all retries,
+ * with the reason (rejected credentials, missing entity, unreachable Home Assistant)
+ * and buttons to retry right away or open the settings.
+ *
+ * Each failure reason can be turned off in the options page, and a target is notified at
+ * most once every 15 minutes, as failed updates are replayed every minute. When each target
+ * was notified is kept in `chrome.storage.local`, as the replay alarm wakes a new service
+ * worker every minute.
+ *
+ * METHODS:
+ * - notifyDeliveryFailure(): Shows the failure notification of a target, unless rate limited
+ * - clearDeliveryFailure(): Removes the failure notification of a target once it is delivered
+ * - getNotifiedTargetId(): Gets the target of a failure notification
+ */
+
+import { Config, FailureReason, Target } from "./config";
+
+// Prefix of the notification IDs, followed by the target ID
+const NOTIFICATION_PREFIX = "delivery-failure:";
+
+// Shortest time between two notifications for the same target
+const NOTIFICATION_INTERVAL = 15 * 60 * 1000;
+
+// Explanation of each failure reason
+const FAILURE_MESSAGES: Record<FailureReason, string> = {
+    auth: "Home Assistant rejected the token or credentials.",
+    not_found: "The entity, service or webhook was not found.",
+    unreachable: "Home Assistant could not be reached.",
+    error: "Home Assistant returned an error.",
+};
+
+// Key of when each target was last notified (milliseconds since epoch) in chrome.storage.local
+const NOTIFIED_KEY = "failure_notified";
+
+// Changes run one after another, as targets are updated in parallel
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads, changes and writes when each target was last notified without racing other changes
+ * @param change - Changes the times in place; returns false to skip writing them
+ */
+function changeNotified(change: (notified: Record<string, number>) => boolean): Promise<void> {
+    const next = pendingChange.then(async () => {
+        const stored = await chrome.storage.local.get(NOTIFIED_KEY);
+        const notified: Record<string, number> = stored[NOTIFIED_KEY] ?? {};
+        if (change(notified)) {
+            await chrome.storage.local.set({ [NOTIFIED_KEY]: notified });
+        }
+    });
+
+    // A failed change must not block the following ones
+    pendingChange = next.catch(() => undefined);
+    return next;
+}
+
+/**
+ * Shows the failure notification of a target, unless its reason is turned off or the
+ * target was notified recently
+ * @param config - Configuration containing the notified failure reasons
+ * @param target - Target the update could not be delivered to
+ * @param reason - Why the update failed
+ */
+export async function notifyDeliveryFailure(config: Config, target: Target, reason: FailureReason) {
+    if (!config.failure_notifications.includes(reason)) {
+        return;
+    }
+
+    let rateLimited = false;
+    await changeNotified((notified) => {
+        const now = Date.now();
+        rateLimited = now - (notified[target.id] ?? 0) < NOTIFICATION_INTERVAL;
+        if (!rateLimited) {
+            notified[target.id] = now;
+        }
+        return !rateLimited;
+    });
+
+    if (rateLimited) {
+        return;
+    }
+
+    chrome.notifications.create(NOTIFICATION_PREFIX + target.id, {
+        type: "basic",
+        iconUrl: chrome.runtime.getURL("icon128.png"),
+        title: `Could not update ${target.name}`,
+        message: `${FAILURE_MESSAGES[reason]} The update will be retried.`,
+        buttons: [{ title: "Retry now" }, { title: "Open settings" }],
+        priority: 1,
+    });
+}
+
+/**
+ * Removes the failure notification of a target once an update was delivered, so its next
+ * failure is notified right away
+ * @param targetId - ID of the target
+ */
+export async function clearDeliveryFailure(targetId: string) {
+    let wasNotified = false;
+    await changeNotified((notified) => {
+        wasNotified = notified[targetId] !== undefined;
+        delete notified[targetId];
+        return wasNotified;
+    });
+
+    if (wasNotified) {
+        chrome.notifications.clear(NOTIFICATION_PREFIX + targetId);
+    }
+}
+
+/**
+ * Gets the target of a failure notification
+ * @param notificationId - ID of the notification
+ * @returns The target ID, or null if the notification is not a failure notification
+ */
+export function getNotifiedTargetId(notificationId: string): string | null {
+    return notificationId.startsWith(NOTIFICATION_PREFIX) ? notificationId.slice(NOTIFICATION_PREFIX.length) : null;
+}
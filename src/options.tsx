@@ -7,14 +7,30 @@
  * methods and providing the necessary connection details.
  *
  * The options page allows users to:
- * - Select integration method (API or Webhook)
+ * - Add, remove and rename configuration profiles (e.g. home and office), pick the active one,
+ *   and set the conditions switching to a profile automatically
+ * - Add, remove, name and enable Home Assistant targets (e.g. home and office)
+ * - Select the integration method of each target (API, Webhook, Event or MQTT)
+ * - Edit rules running service calls on meeting events (trigger, conditions, actions)
  * - Configure Home Assistant connection details
+ * - Set the working hours outside of which meetings are not sent to Home Assistant
+ * - See the keyboard shortcuts of the quick actions and open the page changing them
+ * - Choose which delivery failures are shown as desktop notifications
+ * - Enable heartbeats and copy the automation turning the meeting entity off when they stop
+ * - See the time spent in meetings (daily/weekly totals, longest meeting, back-to-back streaks)
+ *   and export the meeting history as CSV or JSON
+ * - Inspect the requests made to Home Assistant and export them for bug reports
  * - Test their configuration before saving
  * - Save and validate their settings
  *
  * CONFIGURATION METHODS:
  * - API Method: Requires Home Assistant URL, auth token, and entity ID
- * - Webhook Method: Requires a complete webhook URL
+ *   (optional microphone, camera, presenting, meeting state and daily statistics entity IDs, meeting attributes, and what to do
+ *   when the meeting entity is changed in Home Assistant)
+ * - Both methods: Values written for each meeting state (idle, lobby, in call, presenting, ended)
+ * - Webhook Method: Requires a complete webhook URL (optional HTTP method, headers and body template)
+ * - Event Method: Requires Home Assistant URL, auth token, and event prefix (optional device name)
+ * - MQTT Method: Requires the broker WebSocket URL and topics (optional username and password)
  *
  * FEATURES:
  * - Dynamic form fields based on selected method
@@ -32,19 +48,59 @@
  * - test(): Tests the connection to Home Assistant
  * - save(): Saves configuration to Chrome storage
  * - hasConfigChanged(): Checks if configuration has been modified
+ * - refreshProfiles(): Reloads the configuration profiles
+ * - updateProfile(): Updates the name or switching conditions of a profile
+ * - toggleProfileWeekday(): Adds or removes a weekday from the conditions of a profile
+ * - activateProfile(): Makes another profile active and loads its settings
+ * - addNewProfile() / deleteProfile(): Adds a profile copied from the saved settings, or removes one
+ * - updateTarget(): Updates fields of the target being edited
+ * - addTarget() / removeTarget(): Adds or removes a target
+ * - updateRule() / updateRuleAction(): Updates fields of a rule or of one of its actions
+ * - addRule() / removeRule(): Adds or removes a rule
+ * - toggleRuleWeekday(): Adds or removes a weekday from the conditions of a rule
+ * - toggleMeetingAttribute(): Adds or removes a meeting detail from the entity attributes
+ * - toggleFailureNotification(): Turns the notification of a failure reason on or off
+ * - openShortcutSettings(): Opens the Chrome page changing the keyboard shortcuts
+ * - updateSchedule() / updateScheduleWindow(): Updates the schedule or one of its time windows
+ * - addScheduleWindow() / removeScheduleWindow(): Adds or removes a time window of a day
+ * - formatDuration(): Formats a meeting duration
+ * - downloadFile(): Downloads text as a file
+ * - exportHistory(): Downloads the meeting history as CSV or JSON
+ * - clearSessions(): Removes every recorded meeting
+ * - refreshRequestLog(): Reloads the requests shown in the diagnostics
+ * - exportDiagnostics(): Downloads the redacted request log as JSON
+ * - clearDiagnostics(): Removes every logged request
+ * - getWebhookPreview(): Renders the webhook request sent during a call
  * - hasUrlToTest(): Determines if there's enough info to test connection
  * - areRequiredFieldsFilled(): Validates that all required fields are completed
+ * - usesLightEntity(): Determines if the light brightness/color settings apply
  *
  * STATE MANAGEMENT:
  * - config: Current configuration being edited
  * - originalConfig: Saved configuration for change detection
  * - saved: Boolean indicating if save was successful
+ * - webhookAccessDenied: Boolean indicating if access to a webhook server was refused when saving
  * - testStatus: Current status of connection testing
  * - testResult: Result of the last connection test
  * - showToken: Boolean for API token visibility toggle
+ * - selectedTargetId: ID of the target being edited
+ * - sessions: Recorded meetings, shown in the history
+ * - requestLog: Requests made to Home Assistant, shown in the diagnostics
+ * - commands: Keyboard shortcuts of the quick actions
+ * - profiles: Configuration profiles being edited, and the ID of the active one
+ * - originalProfiles: Saved configuration profiles for change detection
  *
  * UI ELEMENTS:
- * - Method selection radio buttons (API/Webhook)
+ * - Profile cards with name, active marker or switch button, automatic switching conditions and remove button
+ * - Target selector with add/remove buttons, name and enabled toggle
+ * - Schedule toggle, timezone, time windows of each day and local tracking toggle
+ * - Keyboard shortcut list with a button opening the Chrome shortcut settings
+ * - Failure notification toggles, one per failure reason
+ * - Heartbeat toggle and interval, with the generated Home Assistant automation
+ * - Rule editor with trigger, target, conditions and ordered actions
+ * - Meeting history with totals, export buttons and retention period
+ * - Diagnostics table of the latest requests, with refresh, export and clear buttons
+ * - Method selection radio buttons (API/Webhook/Event/MQTT)
  * - Dynamic form fields based on selected method
  * - Test button (enabled when configuration is complete)
  * - Save button (enabled when changes are made and fields are valid)
@@ -59,8 +115,50 @@
 
 import React, { useEffect, useState, Suspense } from "react";
 import ReactDOM from "react-dom";
-import { Config, defaultConfig, loadConfig, saveConfig, validateConfig, UpdateMethod } from "./config";
-import { testConnection, TestResult } from "./hass";
+import {
+    Config,
+    createTarget,
+    defaultConfig,
+    FAILURE_REASONS,
+    FailureReason,
+    loadConfig,
+    MeetingAttribute,
+    MEETING_ATTRIBUTES,
+    RECONCILE_POLICIES,
+    ReconcilePolicy,
+    saveConfig,
+    Target,
+    validateConfig,
+    UpdateMethod,
+    WEBHOOK_METHODS,
+    WebhookMethod,
+} from "./config";
+import {
+    canSetEntityAttributes,
+    getEntityDomain,
+    getHeartbeatAutomation,
+    getWebhookOrigins,
+    renderWebhookRequest,
+    SAMPLE_MEETING_STATUS,
+    testConnection,
+    TestResult,
+    WEBHOOK_PLACEHOLDERS,
+} from "./hass";
+import { clearHistory, getHistoryStats, getSessions, MeetingSession, sessionsToCsv } from "./history";
+import { MEETING_STATES } from "./meet";
+import {
+    addProfile,
+    ConfigProfile,
+    createProfile,
+    getProfiles,
+    ProfileList,
+    removeProfile,
+    saveProfiles,
+    validateProfile,
+} from "./profiles";
+import { Schedule, ScheduleWindow, validateSchedule } from "./schedule";
+import { clearRequestLog, exportRequestLog, getRequestLog, RequestLogEntry } from "./requestlog";
+import { createRule, createRuleAction, Rule, RuleAction, RULE_TRIGGERS, validateRule } from "./rules";
 
 // Simple translation function with language detection
 const getLanguage = (): string => {
@@ -131,9 +229,174 @@ const t = (key: string): string => {
             'options.language': 'Language',
             'options.authTokenPlaceholder': 'Your long-lived access token',
             'options.authTokenHelp': 'Your long-lived access token. To generate, see <a href="https://www.home-assistant.io/docs/authentication/#your-account-profile" target="_blank" rel="noopener noreferrer">this guide</a>.',
-            'options.entityIdHelp': 'The entity ID to update when joining/leaving meetings. Example: input_boolean.in_meeting',
+            'options.entityIdHelp': 'The entity ID to update when joining/leaving meetings. Supported domains: input_boolean, switch, light, script, scene, input_select, input_text. Example: input_boolean.in_meeting',
             'options.languageSaved': 'Language preference saved!',
             'options.followBrowser': 'Follow browser language',
+            'options.microphoneEntityId': 'Microphone Entity ID',
+            'options.microphoneEntityIdHelp': 'Optional. Turned on while your microphone is live and off while muted. Example: input_boolean.mic_live',
+            'options.cameraEntityId': 'Camera Entity ID',
+            'options.cameraEntityIdHelp': 'Optional. Turned on while your camera is on. Example: input_boolean.camera_on',
+            'options.presentingEntityId': 'Presenting Entity ID',
+            'options.presentingEntityIdHelp': 'Optional. Turned on while you are presenting your screen. Example: input_boolean.presenting',
+            'options.meetingStateEntityId': 'Meeting State Entity ID',
+            'options.meetingStateEntityIdHelp': 'Optional. An input_select or input_text set to the detailed meeting state. Example: input_select.meeting_state',
+            'options.meetingStateOptions': 'Meeting State Values',
+            'options.meetingStateOptionsHelp': 'Value written for each meeting state. For an input_select, these must match its options exactly.',
+            'options.state.idle': 'Idle',
+            'options.state.lobby': 'Lobby',
+            'options.state.in_call': 'In call',
+            'options.state.presenting': 'Presenting',
+            'options.state.ended': 'Ended',
+            'options.event': 'Event',
+            'options.eventPrefix': 'Event Prefix',
+            'options.eventPrefixHelp': 'Fires <prefix>_started, <prefix>_ended and <prefix>_updated events with the meeting code, start time, duration and source device.',
+            'options.deviceName': 'Device Name',
+            'options.deviceNameHelp': 'Optional. Identifies this computer in event payloads. Defaults to the platform name.',
+            'options.useWebSocket': 'Keep a WebSocket connection during meetings',
+            'options.useWebSocketHelp': 'Sends updates over a persistent connection for near-instant changes. Falls back to regular requests if the connection fails.',
+            'options.lightBrightness': 'Light Brightness (%)',
+            'options.lightColor': 'Light Color',
+            'options.lightColorHelp': 'Optional. Color used when turning on light entities, example: #ff0000. Leave empty to keep the current color.',
+            'options.minutesTodayEntityId': 'Minutes Today Sensor',
+            'options.minutesTodayEntityIdHelp': 'Optional. Sensor created with the minutes spent in meetings today, reset at midnight. Example: sensor.meet_minutes_today',
+            'options.meetingsTodayEntityId': 'Meetings Today Sensor',
+            'options.meetingsTodayEntityIdHelp': 'Optional. Sensor created with the number of meetings today, reset at midnight. Example: sensor.meet_meetings_today',
+            'options.meetingAttributes': 'Entity Attributes',
+            'options.meetingAttributesHelp': 'Optional. Meeting details added as attributes of the meeting entity, e.g. for dashboards. Nothing is shared unless selected.',
+            'options.meetingAttributesUnsupported': 'Attributes are only added to input_boolean, switch and light entities. They are not written to this entity, whose state belongs to its integration.',
+            'options.attribute.meeting_code': 'Meeting code',
+            'options.attribute.meeting_title': 'Meeting title',
+            'options.attribute.started_at': 'Start time',
+            'options.attribute.duration': 'Elapsed duration',
+            'options.attribute.tab_count': 'Open Meet tabs',
+            'options.attribute.source_device': 'Device name',
+            'options.reconcilePolicy': 'When the Entity Is Changed in Home Assistant',
+            'options.reconcilePolicyHelp': 'The meeting entity is read back periodically, to notice changes made in Home Assistant or lost updates.',
+            'options.reconcile.off': 'Do not check',
+            'options.reconcile.always': 'Always correct it',
+            'options.reconcile.in_meeting': 'Correct it only while in a meeting',
+            'options.reconcile.warn': 'Only warn in the popup',
+            'options.reconcileInterval': 'Check Every (minutes)',
+            'options.profiles': 'Profiles',
+            'options.profilesHelp': 'Each profile is a complete configuration, e.g. Home and Office. This page edits the active profile; save your changes before switching to another one.',
+            'options.profileName': 'Profile Name',
+            'options.profileActive': 'Active',
+            'options.useProfile': 'Use This Profile',
+            'options.profileAutoSwitch': 'Switch to this profile automatically',
+            'options.profileConditions': 'When',
+            'options.profileHost': 'Home Assistant URL that answers, example: http://homeassistant.local:8123',
+            'options.profileAutoSwitchHelp': 'Profiles are checked in order every 5 minutes and when the network comes back; the first one whose conditions all match becomes active, between meetings.',
+            'options.addProfile': 'Add Profile',
+            'options.removeProfile': 'Remove Profile',
+            'options.schedule': 'Working Hours',
+            'options.scheduleEnabled': 'Only send meetings to Home Assistant during working hours',
+            'options.scheduleHelp': 'A meeting still running when the working hours end is followed until it is over, so its entities are turned off. A meeting in progress when they start is sent then.',
+            'options.scheduleTimezone': 'Timezone',
+            'options.scheduleTimezoneHelp': 'Optional. IANA timezone of the times, example: Europe/Paris. Leave empty to use the timezone of this computer.',
+            'options.scheduleClosed': 'No updates',
+            'options.addScheduleWindow': 'Add',
+            'options.removeScheduleWindow': 'Remove',
+            'options.scheduleTrackLocally': 'Still record meetings outside working hours in the local history',
+            'options.shortcuts': 'Keyboard Shortcuts',
+            'options.shortcutsHelp': 'The same actions are available by right-clicking the extension icon. Chrome lets you change the shortcuts, or assign them globally, on its own shortcuts page.',
+            'options.shortcutNotSet': 'Not set',
+            'options.changeShortcuts': 'Change shortcuts',
+            'options.failureNotifications': 'Failure Notifications',
+            'options.failureNotificationsHelp': 'Desktop notification shown when an update still fails after all retries, at most every 15 minutes per target.',
+            'options.failure.auth': 'Token or credentials rejected',
+            'options.failure.not_found': 'Entity, service or webhook not found',
+            'options.failure.unreachable': 'Home Assistant unreachable',
+            'options.failure.error': 'Other errors',
+            'options.heartbeat': 'Heartbeat',
+            'options.heartbeatEnabled': 'Send heartbeats during meetings',
+            'options.heartbeatHelp': 'Lets Home Assistant turn the meeting entity off when the browser crashes or the laptop goes to sleep during a meeting.',
+            'options.heartbeatInterval': 'Heartbeat Every (minutes)',
+            'options.heartbeatAutomation': 'Home Assistant Automation',
+            'options.heartbeatAutomationHelp': 'Add this automation to Home Assistant to turn the meeting entity off when the heartbeats stop.',
+            'options.heartbeatMqtt': 'MQTT targets need no heartbeat: the broker marks the sensor unavailable when the browser stops answering.',
+            'options.heartbeatNoAutomation': 'No automation can be generated for this target. Use an input_boolean, switch or light entity, or a Home Assistant webhook with the default body.',
+            'options.history': 'Meeting History',
+            'options.historyHelp': 'Meetings are recorded in this browser only. Weeks start on Monday, and back-to-back meetings start less than 5 minutes after the previous one.',
+            'options.historyEmpty': 'No meetings recorded yet.',
+            'options.historyToday': 'Today',
+            'options.historyThisWeek': 'This week',
+            'options.historyDay': 'Day',
+            'options.historyWeekOf': 'Week of',
+            'options.historyTotal': 'Time in meetings',
+            'options.historyCount': 'Meetings',
+            'options.historyLongest': 'Longest meeting',
+            'options.historyStreaks': 'Back-to-back streaks',
+            'options.historyLongestStreak': 'longest',
+            'options.historyRetention': 'Keep History For (days)',
+            'options.exportCsv': 'Export CSV',
+            'options.exportJson': 'Export JSON',
+            'options.clearHistory': 'Clear history',
+            'options.diagnostics': 'Diagnostics',
+            'options.diagnosticsHelp': 'The latest requests made to Home Assistant, newest first. Tokens, passwords and webhook IDs are redacted, so the export can be attached to bug reports.',
+            'options.diagnosticsEmpty': 'No requests logged yet.',
+            'options.diagnosticsTime': 'Time',
+            'options.diagnosticsTarget': 'Target',
+            'options.diagnosticsMethod': 'Method',
+            'options.diagnosticsUrl': 'URL',
+            'options.diagnosticsStatus': 'Status',
+            'options.diagnosticsLatency': 'Latency',
+            'options.diagnosticsAttempt': 'Attempt',
+            'options.diagnosticsError': 'Error',
+            'options.refresh': 'Refresh',
+            'options.clearDiagnostics': 'Clear log',
+            'options.target': 'Target',
+            'options.targetHelp': 'Each Home Assistant instance receiving the updates, e.g. home and office. Updates are delivered to all enabled targets.',
+            'options.targetName': 'Target Name',
+            'options.targetEnabled': 'Send updates to this target',
+            'options.addTarget': 'Add',
+            'options.removeTarget': 'Remove',
+            'options.unnamedTarget': 'Unnamed target',
+            'options.disabled': 'disabled',
+            'options.webhookMethod': 'HTTP Method',
+            'options.webhookHeaders': 'Headers',
+            'options.webhookHeadersHelp': 'Optional. One "Name: value" per line, e.g. an API key expected by your Node-RED or n8n flow.',
+            'options.webhookAccessDenied': 'Access to the webhook server was not granted. Requests to servers other than Home Assistant fail unless the server allows them (CORS), especially with custom headers or methods other than POST and GET. Save again to grant access.',
+            'options.webhookBodyTemplate': 'Body Template',
+            'options.webhookBodyTemplateHelp': 'Optional. Leave empty to send the default JSON payload. Available placeholders:',
+            'options.userName': 'User Name',
+            'options.userNameHelp': 'Optional. Sent as the {{user}} placeholder.',
+            'options.webhookPreview': 'Request Preview',
+            'options.webhookPreviewHelp': 'Request sent while in a call, with sample meeting details.',
+            'options.mqtt': 'MQTT',
+            'options.mqttUrl': 'MQTT Broker WebSocket URL',
+            'options.mqttUrlHelp': 'WebSocket listener of your broker, example: ws://mosquitto.local:9001 (wss:// for TLS).',
+            'options.mqttUsername': 'MQTT Username',
+            'options.mqttPassword': 'MQTT Password',
+            'options.mqttStateTopic': 'State Topic',
+            'options.mqttStateTopicHelp': 'Receives ON or OFF. The meeting state, microphone, camera and presenting state go to <state topic>/attributes.',
+            'options.mqttAvailabilityTopic': 'Availability Topic',
+            'options.mqttAvailabilityTopicHelp': 'Receives online while the browser is connected, and offline (Last Will) when it goes away.',
+            'options.mqttDiscoveryPrefix': 'Discovery Prefix',
+            'options.mqttDiscoveryPrefixHelp': 'Home Assistant MQTT discovery prefix. binary_sensor.google_meet is created automatically.',
+            'options.rules': 'Rules',
+            'options.rulesHelp': 'Run your own Home Assistant service calls when a meeting event happens, e.g. turn on light.on_air when a meeting starts and turn it off when it ends. Actions run in order on the selected target.',
+            'options.addRule': 'Add Rule',
+            'options.removeRule': 'Remove Rule',
+            'options.ruleName': 'Rule Name',
+            'options.ruleEnabled': 'Enabled',
+            'options.ruleTrigger': 'When',
+            'options.trigger.meeting_started': 'Meeting started',
+            'options.trigger.meeting_ended': 'Meeting ended',
+            'options.trigger.presenting_started': 'Presenting started',
+            'options.trigger.presenting_stopped': 'Presenting stopped',
+            'options.trigger.microphone_muted': 'Microphone muted',
+            'options.trigger.microphone_unmuted': 'Microphone unmuted',
+            'options.ruleTarget': 'Run On',
+            'options.allTargets': 'All API and event targets',
+            'options.ruleConditions': 'Only If (optional)',
+            'options.timeAfter': 'After',
+            'options.timeBefore': 'Before',
+            'options.meetingCodePattern': 'Meeting code, e.g. abc-*',
+            'options.ruleActions': 'Actions',
+            'options.actionService': 'light.turn_on',
+            'options.actionData': '{"entity_id": "light.on_air"}',
+            'options.addAction': 'Add Action',
+            'options.removeAction': 'Remove',
             'test.testing': 'Testing...'
         },
         'pt-br': {
@@ -575,6 +838,107 @@ const optionsStyles = `
         stroke-linecap: round;
         stroke-linejoin: round;
     }
+    .checkbox-item {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+    }
+    .state-option {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+    }
+    .state-option-label {
+        flex: 0 0 100px;
+        font-size: 13px;
+        color: #333;
+    }
+    .target-row {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 6px;
+    }
+    .target-row .button {
+        flex: 0 0 auto;
+    }
+    .rule-card {
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        padding: 12px;
+        margin-bottom: 12px;
+    }
+    .rule-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 6px;
+    }
+    .rule-row .form-field,
+    .rule-row .language-select {
+        flex: 1;
+        margin-bottom: 0;
+    }
+    .rule-row .button {
+        flex: 0 0 auto;
+        padding: 6px 12px;
+    }
+    .rule-action {
+        border-left: 3px solid #bbdefb;
+        padding-left: 8px;
+        margin-bottom: 8px;
+    }
+    .rule-action textarea {
+        font-family: monospace;
+        resize: vertical;
+    }
+    .rule-errors {
+        font-size: 12px;
+        color: #d32f2f;
+        margin-bottom: 6px;
+    }
+    .history-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 13px;
+        margin-bottom: 12px;
+    }
+    .history-table th,
+    .history-table td {
+        text-align: left;
+        padding: 4px 8px;
+        border-bottom: 1px solid #e0e0e0;
+    }
+    .history-table th {
+        color: #666;
+        font-weight: 500;
+    }
+    .diagnostics-table-wrapper {
+        max-height: 320px;
+        overflow: auto;
+        margin-bottom: 12px;
+    }
+    .diagnostics-table td {
+        font-family: monospace;
+        font-size: 12px;
+        word-break: break-all;
+    }
+    .diagnostics-table .diagnostics-error {
+        color: #d32f2f;
+    }
+    .monospace-field {
+        font-family: monospace;
+        resize: vertical;
+    }
+    .webhook-preview, .automation-snippet {
+        background: #f5f5f5;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        padding: 8px;
+        font-size: 12px;
+        white-space: pre-wrap;
+        word-break: break-all;
+        margin: 0 0 6px;
+    }
     .language-selector {
         margin-bottom: 24px;
         padding-bottom: 16px;
@@ -597,17 +961,24 @@ const Options = () => {
     const [config, setConfig] = useState<Config>(defaultConfig);
     const [originalConfig, setOriginalConfig] = useState<Config>(defaultConfig);
     const [saved, setSaved] = useState<boolean>(false);
+    const [webhookAccessDenied, setWebhookAccessDenied] = useState<boolean>(false);
     const [testStatus, setTestStatus] = useState<'not-tested' | 'testing' | 'complete'>('not-tested');
     const [testResult, setTestResult] = useState<TestResult>({
         success: false,
         message: "Testing...",
     });
     const [showToken, setShowToken] = useState<boolean>(false);
+    const [selectedTargetId, setSelectedTargetId] = useState<string>(defaultConfig.targets[0].id);
     const [currentLanguage, setCurrentLanguage] = useState<string>(() => {
         const savedLang = localStorage.getItem('extension-language');
         return savedLang || 'follow-browser';
     });
     const [showLanguageToast, setShowLanguageToast] = useState<boolean>(false);
+    const [sessions, setSessions] = useState<MeetingSession[]>([]);
+    const [requestLog, setRequestLog] = useState<RequestLogEntry[]>([]);
+    const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+    const [profiles, setProfiles] = useState<ProfileList | null>(null);
+    const [originalProfiles, setOriginalProfiles] = useState<ProfileList | null>(null);
 
     /**
      * Populate the previous configuration on load
@@ -621,14 +992,290 @@ const Options = () => {
             setConfig(defaultConfig);
             setOriginalConfig(defaultConfig);
         });
+
+        getSessions().then(setSessions).catch((error) => {
+            console.error("Error loading meeting history:", error);
+        });
+
+        refreshRequestLog();
+        refreshProfiles();
+        chrome.commands.getAll(setCommands);
     }, []);
 
     /**
-     * Tests the connection to Home Assistant
+     * Reloads the configuration profiles, dropping unsaved changes to them
+     */
+    const refreshProfiles = () => {
+        getProfiles().then((loadedProfiles) => {
+            setProfiles(loadedProfiles);
+            setOriginalProfiles(loadedProfiles);
+        }).catch((error) => {
+            console.error("Error loading profiles:", error);
+        });
+    };
+
+    /**
+     * Updates the name or switching conditions of a profile
+     */
+    const updateProfile = (profileId: string, changes: Partial<ConfigProfile>) => {
+        if (profiles === null) {
+            return;
+        }
+        setProfiles({
+            ...profiles,
+            profiles: profiles.profiles.map((profile) => (profile.id === profileId ? { ...profile, ...changes } : profile)),
+        });
+    };
+
+    /**
+     * Adds or removes a weekday from the conditions of a profile
+     */
+    const toggleProfileWeekday = (profile: ConfigProfile, day: number) => {
+        const weekdays = profile.weekdays.includes(day)
+            ? profile.weekdays.filter((item) => item !== day)
+            : [...profile.weekdays, day].sort();
+        updateProfile(profile.id, { weekdays });
+    };
+
+    /**
+     * Makes another profile active through the background worker, which ends a meeting in
+     * progress on the previous targets, and loads its settings
+     */
+    const activateProfile = (profileId: string) => {
+        chrome.runtime.sendMessage({ type: "switch-profile", profileId }, (loadedConfig: Config | null) => {
+            if (chrome.runtime.lastError || !loadedConfig) {
+                return;
+            }
+            setConfig(loadedConfig);
+            setOriginalConfig(loadedConfig);
+            setSelectedTargetId(loadedConfig.targets[0].id);
+            setTestStatus('not-tested');
+            refreshProfiles();
+        });
+    };
+
+    /**
+     * Adds a profile starting from a copy of the saved settings
+     */
+    const addNewProfile = async () => {
+        await addProfile(createProfile(`${t('options.profiles')} ${(profiles?.profiles.length ?? 1) + 1}`), originalConfig);
+        refreshProfiles();
+    };
+
+    /**
+     * Removes a profile that is not active, and its settings
+     */
+    const deleteProfile = async (profileId: string) => {
+        await removeProfile(profileId);
+        refreshProfiles();
+    };
+
+    // Target being edited, falling back to the first one if it was removed
+    const target = config.targets.find((item) => item.id === selectedTargetId) ?? config.targets[0];
+
+    /**
+     * Updates fields of the target being edited
+     */
+    const updateTarget = (changes: Partial<Target>) => {
+        setConfig({
+            ...config,
+            targets: config.targets.map((item) => (item.id === target.id ? { ...item, ...changes } : item)),
+        });
+        setTestStatus('not-tested');
+    };
+
+    /**
+     * Adds a new target and selects it
+     */
+    const addTarget = () => {
+        const newTarget = createTarget(`${t('options.target')} ${config.targets.length + 1}`);
+        setConfig({ ...config, targets: [...config.targets, newTarget] });
+        setSelectedTargetId(newTarget.id);
+        setTestStatus('not-tested');
+    };
+
+    /**
+     * Removes the target being edited
+     */
+    const removeTarget = () => {
+        const targets = config.targets.filter((item) => item.id !== target.id);
+        setConfig({ ...config, targets });
+        setSelectedTargetId(targets[0].id);
+        setTestStatus('not-tested');
+    };
+
+    /**
+     * Updates fields of a rule
+     */
+    const updateRule = (ruleId: string, changes: Partial<Rule>) => {
+        setConfig({
+            ...config,
+            rules: config.rules.map((rule) => (rule.id === ruleId ? { ...rule, ...changes } : rule)),
+        });
+    };
+
+    /**
+     * Updates fields of an action of a rule
+     */
+    const updateRuleAction = (rule: Rule, index: number, changes: Partial<RuleAction>) => {
+        updateRule(rule.id, {
+            actions: rule.actions.map((action, i) => (i === index ? { ...action, ...changes } : action)),
+        });
+    };
+
+    /**
+     * Adds a new rule
+     */
+    const addRule = () => {
+        setConfig({ ...config, rules: [...config.rules, createRule(`${t('options.rules')} ${config.rules.length + 1}`)] });
+    };
+
+    /**
+     * Removes a rule
+     */
+    const removeRule = (ruleId: string) => {
+        setConfig({ ...config, rules: config.rules.filter((rule) => rule.id !== ruleId) });
+    };
+
+    /**
+     * Adds or removes a weekday from the conditions of a rule
+     */
+    const toggleRuleWeekday = (rule: Rule, day: number) => {
+        const weekdays = rule.conditions.weekdays.includes(day)
+            ? rule.conditions.weekdays.filter((item) => item !== day)
+            : [...rule.conditions.weekdays, day].sort();
+        updateRule(rule.id, { conditions: { ...rule.conditions, weekdays } });
+    };
+
+    /**
+     * Adds or removes a meeting detail from the attributes of the meeting entity
+     */
+    const toggleMeetingAttribute = (attribute: MeetingAttribute) => {
+        const meeting_attributes = config.meeting_attributes.includes(attribute)
+            ? config.meeting_attributes.filter((item) => item !== attribute)
+            : MEETING_ATTRIBUTES.filter((item) => item === attribute || config.meeting_attributes.includes(item));
+        setConfig({ ...config, meeting_attributes });
+    };
+
+    /**
+     * Turns the desktop notification of a failure reason on or off
+     */
+    const toggleFailureNotification = (reason: FailureReason) => {
+        const failure_notifications = config.failure_notifications.includes(reason)
+            ? config.failure_notifications.filter((item) => item !== reason)
+            : FAILURE_REASONS.filter((item) => item === reason || config.failure_notifications.includes(item));
+        setConfig({ ...config, failure_notifications });
+    };
+
+    /**
+     * Updates fields of the working-hours schedule
+     */
+    const updateSchedule = (changes: Partial<Schedule>) => {
+        setConfig({ ...config, schedule: { ...config.schedule, ...changes } });
+    };
+
+    /**
+     * Updates a time window of a day of the schedule
+     */
+    const updateScheduleWindow = (day: number, index: number, changes: Partial<ScheduleWindow>) => {
+        updateSchedule({
+            days: config.schedule.days.map((windows, i) =>
+                i === day ? windows.map((window, j) => (j === index ? { ...window, ...changes } : window)) : windows
+            ),
+        });
+    };
+
+    /**
+     * Adds a time window to a day of the schedule, after its last one
+     */
+    const addScheduleWindow = (day: number) => {
+        const windows = config.schedule.days[day];
+        const start = windows.length > 0 ? windows[windows.length - 1].end : '09:00';
+        const window = start < '23:00' ? { start, end: '24:00' } : { start: '09:00', end: '18:00' };
+        updateSchedule({ days: config.schedule.days.map((item, i) => (i === day ? [...item, window] : item)) });
+    };
+
+    /**
+     * Removes a time window from a day of the schedule
+     */
+    const removeScheduleWindow = (day: number, index: number) => {
+        updateSchedule({ days: config.schedule.days.map((item, i) => (i === day ? item.filter((_, j) => j !== index) : item)) });
+    };
+
+    /**
+     * Opens the Chrome page changing the keyboard shortcuts, which extensions cannot change themselves
+     */
+    const openShortcutSettings = () => {
+        chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    };
+
+    /**
+     * Formats a duration such as "1 h 05 min"
+     */
+    const formatDuration = (duration: number): string => {
+        const minutes = Math.round(duration / 60000);
+        return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min` : `${minutes} min`;
+    };
+
+    /**
+     * Downloads text as a file
+     */
+    const downloadFile = (name: string, content: string, type: string) => {
+        const url = URL.createObjectURL(new Blob([content], { type }));
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * Downloads the meeting history as CSV or JSON
+     */
+    const exportHistory = (format: 'csv' | 'json') => {
+        const content = format === 'csv' ? sessionsToCsv(sessions) : JSON.stringify(sessions, null, 2);
+        downloadFile(`google-meet-history.${format}`, content, format === 'csv' ? 'text/csv' : 'application/json');
+    };
+
+    /**
+     * Removes every recorded meeting
+     */
+    const clearSessions = async () => {
+        await clearHistory();
+        setSessions([]);
+    };
+
+    /**
+     * Reloads the requests shown in the diagnostics, newest first
+     */
+    const refreshRequestLog = () => {
+        getRequestLog().then((log) => setRequestLog(log.reverse())).catch((error) => {
+            console.error("Error loading request log:", error);
+        });
+    };
+
+    /**
+     * Downloads the redacted request log as JSON
+     */
+    const exportDiagnostics = async () => {
+        downloadFile('google-meet-diagnostics.json', await exportRequestLog(), 'application/json');
+    };
+
+    /**
+     * Removes every logged request
+     */
+    const clearDiagnostics = async () => {
+        await clearRequestLog();
+        setRequestLog([]);
+    };
+
+    /**
+     * Tests the connection to the target being edited
      */
     const test = async () => {
         setTestStatus('testing');
-        const result = await testConnection(config);
+        const result = await testConnection(config, target);
         setTestResult(result);
         setTestStatus('complete');
     };
@@ -637,8 +1284,21 @@ const Options = () => {
      * Saves the configuration to Chrome storage
      */
     const save = async () => {
+        // Chrome only shows the permission prompt right after a click, so it is asked first
+        const origins = getWebhookOrigins(config);
+        if (origins.length > 0) {
+            const granted = await new Promise<boolean>((resolve) => chrome.permissions.request({ origins }, (result) => resolve(result === true)));
+            setWebhookAccessDenied(!granted);
+        } else {
+            setWebhookAccessDenied(false);
+        }
+
         await saveConfig(config);
         setOriginalConfig(config);
+        if (profiles !== null) {
+            await saveProfiles(profiles.profiles);
+            setOriginalProfiles(profiles);
+        }
         setSaved(true);
         setTimeout(() => setSaved(false), 3000);
     };
@@ -661,7 +1321,7 @@ const Options = () => {
      * Check if configuration has changed
      */
     const hasConfigChanged = (): boolean => {
-        return JSON.stringify(config) !== JSON.stringify(originalConfig);
+        return JSON.stringify(config) !== JSON.stringify(originalConfig) || JSON.stringify(profiles) !== JSON.stringify(originalProfiles);
     };
 
     /**
@@ -669,22 +1329,50 @@ const Options = () => {
      */
     const areRequiredFieldsFilled = (): boolean => {
         const validation = validateConfig(config);
-        return validation.isValid;
+        return validation.isValid && (profiles?.profiles ?? []).every((profile) => validateProfile(profile).isValid);
+    };
+
+    /**
+     * Check if any configured entity of any target is a light, to show the light settings
+     */
+    const usesLightEntity = (): boolean => {
+        return config.targets
+            .filter((item) => item.method === "api")
+            .flatMap((item) => [item.entity_id, item.microphone_entity_id, item.camera_entity_id, item.presenting_entity_id])
+            .some((entityId) => getEntityDomain(entityId) === "light");
+    };
+
+    /**
+     * Renders the webhook request of the target being edited for a call in progress
+     */
+    const getWebhookPreview = (): string => {
+        const request = renderWebhookRequest(config, target, SAMPLE_MEETING_STATUS);
+        const headers = Object.entries(request.headers).map(([name, value]) => `${name}: ${value}`);
+        return [`${request.method} ${request.url}`, ...headers, ...(request.body !== undefined ? ['', request.body] : [])].join('\n');
     };
 
     /**
      * Check if there is enough information to test
      */
     const hasUrlToTest = (): boolean => {
-        if (config.method === "api") {
+        if (target.method === "api") {
+            return (
+                target.host.trim() !== "" &&
+                target.entity_id.trim() !== "" &&
+                target.token.trim() !== "" &&
+                target.token !== "xxxxxxx"
+            );
+        } else if (target.method === "event") {
             return (
-                config.host.trim() !== "" &&
-                config.entity_id.trim() !== "" &&
-                config.token.trim() !== "" &&
-                config.token !== "xxxxxxx"
+                target.host.trim() !== "" &&
+                target.event_prefix.trim() !== "" &&
+                target.token.trim() !== "" &&
+                target.token !== "xxxxxxx"
             );
+        } else if (target.method === "mqtt") {
+            return target.mqtt_url.trim() !== "";
         } else {
-            return config.webhook_url.trim() !== "";
+            return target.webhook_url.trim() !== "";
         }
     };
 
@@ -715,6 +1403,179 @@ const Options = () => {
                         </select>
                     </div>
 
+                {/* Profiles */}
+                {profiles !== null && (
+                    <div className="form-section">
+                        <label className="form-label">{t('options.profiles')}</label>
+                        <div className="form-helper">{t('options.profilesHelp')}</div>
+                        {profiles.profiles.map((profile) => {
+                            const profileErrors = validateProfile(profile).errors;
+                            const isActive = profile.id === profiles.activeId;
+                            return (
+                                <div key={profile.id} className="rule-card">
+                                    <div className="rule-row">
+                                        <input
+                                            type="text"
+                                            value={profile.name}
+                                            onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                                            className="form-field"
+                                            placeholder={t('options.profileName')}
+                                        />
+                                        {isActive ? (
+                                            <span className="radio-label">✅ {t('options.profileActive')}</span>
+                                        ) : (
+                                            <button
+                                                type="button"
+                                                className="button button-secondary"
+                                                onClick={() => activateProfile(profile.id)}
+                                                disabled={hasConfigChanged()}
+                                            >
+                                                {t('options.useProfile')}
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    <div className="checkbox-item">
+                                        <input
+                                            id={`profile-auto-${profile.id}`}
+                                            type="checkbox"
+                                            checked={profile.auto_switch}
+                                            onChange={(e) => updateProfile(profile.id, { auto_switch: e.target.checked })}
+                                        />
+                                        <label htmlFor={`profile-auto-${profile.id}`} className="radio-label">{t('options.profileAutoSwitch')}</label>
+                                    </div>
+
+                                    {profile.auto_switch && (
+                                        <>
+                                            <div className="rule-row">
+                                                <label className="state-option-label">{t('options.profileConditions')}</label>
+                                                <input
+                                                    type="text"
+                                                    value={profile.reachable_host}
+                                                    onChange={(e) => updateProfile(profile.id, { reachable_host: e.target.value.trim() })}
+                                                    className="form-field"
+                                                    placeholder={t('options.profileHost')}
+                                                />
+                                            </div>
+
+                                            <div className="rule-row">
+                                                <span className="state-option-label"></span>
+                                                <span className="radio-label">{t('options.timeAfter')}</span>
+                                                <input
+                                                    type="time"
+                                                    value={profile.time_after}
+                                                    onChange={(e) => updateProfile(profile.id, { time_after: e.target.value })}
+                                                    className="form-field"
+                                                />
+                                                <span className="radio-label">{t('options.timeBefore')}</span>
+                                                <input
+                                                    type="time"
+                                                    value={profile.time_before}
+                                                    onChange={(e) => updateProfile(profile.id, { time_before: e.target.value })}
+                                                    className="form-field"
+                                                />
+                                            </div>
+
+                                            <div className="rule-row">
+                                                <span className="state-option-label"></span>
+                                                {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                                                    <div key={day} className="checkbox-item">
+                                                        <input
+                                                            id={`profile-day-${profile.id}-${day}`}
+                                                            type="checkbox"
+                                                            checked={profile.weekdays.includes(day)}
+                                                            onChange={() => toggleProfileWeekday(profile, day)}
+                                                        />
+                                                        {/* 7 January 2024 was a Sunday */}
+                                                        <label htmlFor={`profile-day-${profile.id}-${day}`} className="radio-label">
+                                                            {new Date(2024, 0, 7 + day).toLocaleDateString(undefined, { weekday: 'short' })}
+                                                        </label>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {profileErrors.length > 0 && (
+                                        <div className="rule-errors">
+                                            {profileErrors.map((error) => <div key={error}>{error}</div>)}
+                                        </div>
+                                    )}
+
+                                    {!isActive && (
+                                        <div className="rule-row">
+                                            <button
+                                                type="button"
+                                                className="button button-secondary"
+                                                onClick={() => deleteProfile(profile.id)}
+                                                disabled={hasConfigChanged()}
+                                            >
+                                                {t('options.removeProfile')}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        <div className="form-helper">{t('options.profileAutoSwitchHelp')}</div>
+                        <button type="button" className="button button-secondary" onClick={addNewProfile} disabled={hasConfigChanged()}>
+                            {t('options.addProfile')}
+                        </button>
+                    </div>
+                )}
+
+                {/* Targets */}
+                <div className="form-section target-selector">
+                    <label htmlFor="target" className="form-label">{t('options.target')}</label>
+                    <div className="target-row">
+                        <select
+                            id="target"
+                            className="language-select"
+                            value={target.id}
+                            onChange={(e) => setSelectedTargetId(e.target.value)}
+                        >
+                            {config.targets.map((item) => (
+                                <option key={item.id} value={item.id}>
+                                    {item.name || t('options.unnamedTarget')}{item.enabled ? '' : ` (${t('options.disabled')})`}
+                                </option>
+                            ))}
+                        </select>
+                        <button type="button" className="button button-secondary" onClick={addTarget}>
+                            {t('options.addTarget')}
+                        </button>
+                        <button
+                            type="button"
+                            className="button button-secondary"
+                            onClick={removeTarget}
+                            disabled={config.targets.length === 1}
+                        >
+                            {t('options.removeTarget')}
+                        </button>
+                    </div>
+                    <div className="form-helper">{t('options.targetHelp')}</div>
+                </div>
+
+                <div className="form-section">
+                    <label htmlFor="target_name" className="form-label">{t('options.targetName')} *</label>
+                    <input
+                        id="target_name"
+                        type="text"
+                        value={target.name}
+                        onChange={(e) => updateTarget({ name: e.target.value })}
+                        className="form-field"
+                        placeholder="Home"
+                    />
+                    <div className="checkbox-item">
+                        <input
+                            id="target_enabled"
+                            type="checkbox"
+                            checked={target.enabled}
+                            onChange={(e) => updateTarget({ enabled: e.target.checked })}
+                        />
+                        <label htmlFor="target_enabled" className="radio-label">{t('options.targetEnabled')}</label>
+                    </div>
+                </div>
+
                 {/* Update Method */}
                 <div className="form-section">
                     <label className="form-label">{t('options.updateMethod')}</label>
@@ -725,8 +1586,8 @@ const Options = () => {
                                 id="method-api"
                                 name="method"
                                 value="api"
-                                checked={config.method === "api"}
-                                onChange={(e) => setConfig({ ...config, method: e.target.value as UpdateMethod })}
+                                checked={target.method === "api"}
+                                onChange={(e) => updateTarget({ method: e.target.value as UpdateMethod })}
                                 className="radio-input"
                             />
                             <label htmlFor="method-api" className="radio-label">{t('options.api')}</label>
@@ -737,25 +1598,49 @@ const Options = () => {
                                 id="method-webhook"
                                 name="method"
                                 value="webhook"
-                                checked={config.method === "webhook"}
-                                onChange={(e) => setConfig({ ...config, method: e.target.value as UpdateMethod })}
+                                checked={target.method === "webhook"}
+                                onChange={(e) => updateTarget({ method: e.target.value as UpdateMethod })}
                                 className="radio-input"
                             />
                             <label htmlFor="method-webhook" className="radio-label">{t('options.webhook')}</label>
                         </div>
+                        <div className="radio-item">
+                            <input
+                                type="radio"
+                                id="method-event"
+                                name="method"
+                                value="event"
+                                checked={target.method === "event"}
+                                onChange={(e) => updateTarget({ method: e.target.value as UpdateMethod })}
+                                className="radio-input"
+                            />
+                            <label htmlFor="method-event" className="radio-label">{t('options.event')}</label>
+                        </div>
+                        <div className="radio-item">
+                            <input
+                                type="radio"
+                                id="method-mqtt"
+                                name="method"
+                                value="mqtt"
+                                checked={target.method === "mqtt"}
+                                onChange={(e) => updateTarget({ method: e.target.value as UpdateMethod })}
+                                className="radio-input"
+                            />
+                            <label htmlFor="method-mqtt" className="radio-label">{t('options.mqtt')}</label>
+                        </div>
                     </div>
                 </div>
 
-                {/* API Configuration */}
-                {config.method === "api" && (
+                {/* Home Assistant Connection (API and event methods) */}
+                {(target.method === "api" || target.method === "event") && (
                     <>
                         <div className="form-section">
                             <label htmlFor='host' className='form-label'>{t('options.hostUrl')} *</label>
                             <input
                                 id="host"
                                 type="text"
-                                value={config.host}
-                                onChange={(e) => setConfig({ ...config, host: e.target.value })}
+                                value={target.host}
+                                onChange={(e) => updateTarget({ host: e.target.value })}
                                 className="form-field"
                                 placeholder="http://homeassistant.local"
                             />
@@ -768,8 +1653,8 @@ const Options = () => {
                                 <input
                                     id="token"
                                     type={showToken ? "text" : "password"}
-                                    value={config.token}
-                                    onChange={(e) => setConfig({ ...config, token: e.target.value })}
+                                    value={target.token}
+                                    onChange={(e) => updateTarget({ token: e.target.value })}
                                     className="form-field"
                                     placeholder={t('options.authTokenPlaceholder')}
                                 />
@@ -794,37 +1679,874 @@ const Options = () => {
                             </div>
                         </div>
 
+                        <div className="form-section">
+                            <div className="checkbox-item">
+                                <input
+                                    id="use_websocket"
+                                    type="checkbox"
+                                    checked={target.use_websocket}
+                                    onChange={(e) => updateTarget({ use_websocket: e.target.checked })}
+                                />
+                                <label htmlFor="use_websocket" className="radio-label">{t('options.useWebSocket')}</label>
+                            </div>
+                            <div className="form-helper">{t('options.useWebSocketHelp')}</div>
+                        </div>
+                    </>
+                )}
+
+                {/* API Configuration */}
+                {target.method === "api" && (
+                    <>
+
                         <div className="form-section">
                             <label htmlFor='entity_id' className='form-label'>{t('options.entityId')} *</label>
                             <input
                                 id="entity_id"
                                 type="text"
-                                value={config.entity_id}
-                                onChange={(e) => setConfig({ ...config, entity_id: e.target.value })}
+                                value={target.entity_id}
+                                onChange={(e) => updateTarget({ entity_id: e.target.value })}
                                 className="form-field"
                                 placeholder="input_boolean.in_meeting"
                             />
                             <div className="form-helper">{t('options.entityIdHelp')}</div>
                         </div>
+
+                        <div className="form-section">
+                            <label htmlFor='microphone_entity_id' className='form-label'>{t('options.microphoneEntityId')}</label>
+                            <input
+                                id="microphone_entity_id"
+                                type="text"
+                                value={target.microphone_entity_id}
+                                onChange={(e) => updateTarget({ microphone_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="input_boolean.mic_live"
+                            />
+                            <div className="form-helper">{t('options.microphoneEntityIdHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor='camera_entity_id' className='form-label'>{t('options.cameraEntityId')}</label>
+                            <input
+                                id="camera_entity_id"
+                                type="text"
+                                value={target.camera_entity_id}
+                                onChange={(e) => updateTarget({ camera_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="input_boolean.camera_on"
+                            />
+                            <div className="form-helper">{t('options.cameraEntityIdHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor='presenting_entity_id' className='form-label'>{t('options.presentingEntityId')}</label>
+                            <input
+                                id="presenting_entity_id"
+                                type="text"
+                                value={target.presenting_entity_id}
+                                onChange={(e) => updateTarget({ presenting_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="input_boolean.presenting"
+                            />
+                            <div className="form-helper">{t('options.presentingEntityIdHelp')}</div>
+                        </div>
+
+                        {usesLightEntity() && (
+                            <>
+                                <div className="form-section">
+                                    <label htmlFor='light_brightness_pct' className='form-label'>{t('options.lightBrightness')}</label>
+                                    <input
+                                        id="light_brightness_pct"
+                                        type="number"
+                                        min={1}
+                                        max={100}
+                                        value={config.light_brightness_pct}
+                                        onChange={(e) => setConfig({ ...config, light_brightness_pct: Number(e.target.value) })}
+                                        className="form-field"
+                                    />
+                                </div>
+
+                                <div className="form-section">
+                                    <label htmlFor='light_color' className='form-label'>{t('options.lightColor')}</label>
+                                    <input
+                                        id="light_color"
+                                        type="text"
+                                        value={config.light_color}
+                                        onChange={(e) => setConfig({ ...config, light_color: e.target.value.trim() })}
+                                        className="form-field"
+                                        placeholder="#ff0000"
+                                    />
+                                    <div className="form-helper">{t('options.lightColorHelp')}</div>
+                                </div>
+                            </>
+                        )}
+
+                        <div className="form-section">
+                            <label htmlFor='meeting_state_entity_id' className='form-label'>{t('options.meetingStateEntityId')}</label>
+                            <input
+                                id="meeting_state_entity_id"
+                                type="text"
+                                value={target.meeting_state_entity_id}
+                                onChange={(e) => updateTarget({ meeting_state_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="input_select.meeting_state"
+                            />
+                            <div className="form-helper">{t('options.meetingStateEntityIdHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor='minutes_today_entity_id' className='form-label'>{t('options.minutesTodayEntityId')}</label>
+                            <input
+                                id="minutes_today_entity_id"
+                                type="text"
+                                value={target.minutes_today_entity_id}
+                                onChange={(e) => updateTarget({ minutes_today_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="sensor.meet_minutes_today"
+                            />
+                            <div className="form-helper">{t('options.minutesTodayEntityIdHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor='meetings_today_entity_id' className='form-label'>{t('options.meetingsTodayEntityId')}</label>
+                            <input
+                                id="meetings_today_entity_id"
+                                type="text"
+                                value={target.meetings_today_entity_id}
+                                onChange={(e) => updateTarget({ meetings_today_entity_id: e.target.value })}
+                                className="form-field"
+                                placeholder="sensor.meet_meetings_today"
+                            />
+                            <div className="form-helper">{t('options.meetingsTodayEntityIdHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label className="form-label">{t('options.meetingAttributes')}</label>
+                            {MEETING_ATTRIBUTES.map((attribute) => (
+                                <div key={attribute} className="checkbox-item">
+                                    <input
+                                        id={`attribute-${attribute}`}
+                                        type="checkbox"
+                                        checked={config.meeting_attributes.includes(attribute)}
+                                        onChange={() => toggleMeetingAttribute(attribute)}
+                                    />
+                                    <label htmlFor={`attribute-${attribute}`} className="radio-label">{t(`options.attribute.${attribute}`)}</label>
+                                </div>
+                            ))}
+                            <div className="form-helper">{t('options.meetingAttributesHelp')}</div>
+                            {config.meeting_attributes.length > 0 && !canSetEntityAttributes(target.entity_id) && (
+                                <div className="form-helper">{t('options.meetingAttributesUnsupported')}</div>
+                            )}
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="reconcile_policy" className="form-label">{t('options.reconcilePolicy')}</label>
+                            <select
+                                id="reconcile_policy"
+                                className="language-select"
+                                value={config.reconcile_policy}
+                                onChange={(e) => setConfig({ ...config, reconcile_policy: e.target.value as ReconcilePolicy })}
+                            >
+                                {RECONCILE_POLICIES.map((policy) => (
+                                    <option key={policy} value={policy}>{t(`options.reconcile.${policy}`)}</option>
+                                ))}
+                            </select>
+                            <div className="form-helper">{t('options.reconcilePolicyHelp')}</div>
+                        </div>
+
+                        {config.reconcile_policy !== "off" && (
+                            <div className="form-section">
+                                <label htmlFor="reconcile_interval" className="form-label">{t('options.reconcileInterval')}</label>
+                                <input
+                                    id="reconcile_interval"
+                                    type="number"
+                                    min={1}
+                                    max={60}
+                                    value={config.reconcile_interval}
+                                    onChange={(e) => setConfig({ ...config, reconcile_interval: Number(e.target.value) })}
+                                    className="form-field"
+                                />
+                            </div>
+                        )}
                     </>
                 )}
 
+                {/* Meeting State Values */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.meetingStateOptions')}</label>
+                    {MEETING_STATES.map((state) => (
+                        <div key={state} className="state-option">
+                            <label htmlFor={`state-option-${state}`} className="state-option-label">{t(`options.state.${state}`)}</label>
+                            <input
+                                id={`state-option-${state}`}
+                                type="text"
+                                value={config.meeting_state_options[state]}
+                                onChange={(e) => setConfig({
+                                    ...config,
+                                    meeting_state_options: { ...config.meeting_state_options, [state]: e.target.value },
+                                })}
+                                className="form-field"
+                            />
+                        </div>
+                    ))}
+                    <div className="form-helper">{t('options.meetingStateOptionsHelp')}</div>
+                </div>
+
                 {/* Webhook Configuration */}
-                {config.method === "webhook" && (
-                    <div className="form-section">
-                        <label htmlFor="webhook_url" className="form-label">{t('options.webhookUrl')} *</label>
+                {target.method === "webhook" && (
+                    <>
+                        <div className="form-section">
+                            <label htmlFor="webhook_url" className="form-label">{t('options.webhookUrl')} *</label>
+                            <input
+                                id="webhook_url"
+                                type="text"
+                                value={target.webhook_url}
+                                onChange={(e) => updateTarget({ webhook_url: e.target.value })}
+                                className="form-field"
+                                placeholder="https://ha.example.com/api/webhook/entity_webhook"
+                            />
+                            <div className="form-helper" dangerouslySetInnerHTML={{ __html: t('options.webhookUrlHelp') }}></div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="webhook_method" className="form-label">{t('options.webhookMethod')}</label>
+                            <select
+                                id="webhook_method"
+                                className="language-select"
+                                value={target.webhook_method}
+                                onChange={(e) => updateTarget({ webhook_method: e.target.value as WebhookMethod })}
+                            >
+                                {WEBHOOK_METHODS.map((method) => (
+                                    <option key={method} value={method}>{method}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="webhook_headers" className="form-label">{t('options.webhookHeaders')}</label>
+                            <textarea
+                                id="webhook_headers"
+                                value={target.webhook_headers}
+                                onChange={(e) => updateTarget({ webhook_headers: e.target.value })}
+                                className="form-field monospace-field"
+                                rows={3}
+                                placeholder="X-Api-Key: secret"
+                            />
+                            <div className="form-helper">{t('options.webhookHeadersHelp')}</div>
+                        </div>
+
+                        {target.webhook_method !== "GET" && (
+                            <div className="form-section">
+                                <label htmlFor="webhook_body_template" className="form-label">{t('options.webhookBodyTemplate')}</label>
+                                <textarea
+                                    id="webhook_body_template"
+                                    value={target.webhook_body_template}
+                                    onChange={(e) => updateTarget({ webhook_body_template: e.target.value })}
+                                    className="form-field monospace-field"
+                                    rows={5}
+                                    placeholder='{"status": "{{state}}", "meeting": "{{meeting_code}}"}'
+                                />
+                                <div className="form-helper">
+                                    {t('options.webhookBodyTemplateHelp')} {WEBHOOK_PLACEHOLDERS.map((name) => `{{${name}}}`).join(', ')}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="form-section">
+                            <label htmlFor="user_name" className="form-label">{t('options.userName')}</label>
+                            <input
+                                id="user_name"
+                                type="text"
+                                value={config.user_name}
+                                onChange={(e) => setConfig({ ...config, user_name: e.target.value })}
+                                className="form-field"
+                            />
+                            <div className="form-helper">{t('options.userNameHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label className="form-label">{t('options.webhookPreview')}</label>
+                            <pre className="webhook-preview">{getWebhookPreview()}</pre>
+                            <div className="form-helper">{t('options.webhookPreviewHelp')}</div>
+                        </div>
+                    </>
+                )}
+
+                {/* Event Configuration */}
+                {target.method === "event" && (
+                    <>
+                        <div className="form-section">
+                            <label htmlFor="event_prefix" className="form-label">{t('options.eventPrefix')} *</label>
+                            <input
+                                id="event_prefix"
+                                type="text"
+                                value={target.event_prefix}
+                                onChange={(e) => updateTarget({ event_prefix: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder="google_meet"
+                            />
+                            <div className="form-helper">{t('options.eventPrefixHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="device_name" className="form-label">{t('options.deviceName')}</label>
+                            <input
+                                id="device_name"
+                                type="text"
+                                value={config.device_name}
+                                onChange={(e) => setConfig({ ...config, device_name: e.target.value })}
+                                className="form-field"
+                                placeholder={navigator.platform}
+                            />
+                            <div className="form-helper">{t('options.deviceNameHelp')}</div>
+                        </div>
+                    </>
+                )}
+
+                {/* MQTT Configuration */}
+                {target.method === "mqtt" && (
+                    <>
+                        <div className="form-section">
+                            <label htmlFor="mqtt_url" className="form-label">{t('options.mqttUrl')} *</label>
+                            <input
+                                id="mqtt_url"
+                                type="text"
+                                value={target.mqtt_url}
+                                onChange={(e) => updateTarget({ mqtt_url: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder="ws://mosquitto.local:9001"
+                            />
+                            <div className="form-helper">{t('options.mqttUrlHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="mqtt_username" className="form-label">{t('options.mqttUsername')}</label>
+                            <input
+                                id="mqtt_username"
+                                type="text"
+                                value={target.mqtt_username}
+                                onChange={(e) => updateTarget({ mqtt_username: e.target.value })}
+                                className="form-field"
+                            />
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="mqtt_password" className="form-label">{t('options.mqttPassword')}</label>
+                            <input
+                                id="mqtt_password"
+                                type="password"
+                                value={target.mqtt_password}
+                                onChange={(e) => updateTarget({ mqtt_password: e.target.value })}
+                                className="form-field"
+                            />
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="mqtt_state_topic" className="form-label">{t('options.mqttStateTopic')} *</label>
+                            <input
+                                id="mqtt_state_topic"
+                                type="text"
+                                value={target.mqtt_state_topic}
+                                onChange={(e) => updateTarget({ mqtt_state_topic: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder="google_meet/state"
+                            />
+                            <div className="form-helper">{t('options.mqttStateTopicHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="mqtt_availability_topic" className="form-label">{t('options.mqttAvailabilityTopic')} *</label>
+                            <input
+                                id="mqtt_availability_topic"
+                                type="text"
+                                value={target.mqtt_availability_topic}
+                                onChange={(e) => updateTarget({ mqtt_availability_topic: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder="google_meet/availability"
+                            />
+                            <div className="form-helper">{t('options.mqttAvailabilityTopicHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            <label htmlFor="mqtt_discovery_prefix" className="form-label">{t('options.mqttDiscoveryPrefix')} *</label>
+                            <input
+                                id="mqtt_discovery_prefix"
+                                type="text"
+                                value={target.mqtt_discovery_prefix}
+                                onChange={(e) => updateTarget({ mqtt_discovery_prefix: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder="homeassistant"
+                            />
+                            <div className="form-helper">{t('options.mqttDiscoveryPrefixHelp')}</div>
+                        </div>
+                    </>
+                )}
+
+                {/* Working Hours */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.schedule')}</label>
+                    <div className="checkbox-item">
+                        <input
+                            id="schedule_enabled"
+                            type="checkbox"
+                            checked={config.schedule.enabled}
+                            onChange={(e) => updateSchedule({ enabled: e.target.checked })}
+                        />
+                        <label htmlFor="schedule_enabled" className="radio-label">{t('options.scheduleEnabled')}</label>
+                    </div>
+                    <div className="form-helper">{t('options.scheduleHelp')}</div>
+                </div>
+
+                {config.schedule.enabled && (
+                    <>
+                        <div className="form-section">
+                            <label htmlFor="schedule_timezone" className="form-label">{t('options.scheduleTimezone')}</label>
+                            <input
+                                id="schedule_timezone"
+                                type="text"
+                                value={config.schedule.timezone}
+                                onChange={(e) => updateSchedule({ timezone: e.target.value.trim() })}
+                                className="form-field"
+                                placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                            />
+                            <div className="form-helper">{t('options.scheduleTimezoneHelp')}</div>
+                        </div>
+
+                        <div className="form-section">
+                            {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                                <div key={day} className="rule-row">
+                                    {/* 7 January 2024 was a Sunday */}
+                                    <span className="state-option-label">
+                                        {new Date(2024, 0, 7 + day).toLocaleDateString(undefined, { weekday: 'long' })}
+                                    </span>
+                                    {config.schedule.days[day].length === 0 && (
+                                        <span className="radio-label">{t('options.scheduleClosed')}</span>
+                                    )}
+                                    {config.schedule.days[day].map((window, index) => (
+                                        <React.Fragment key={index}>
+                                            <input
+                                                type="time"
+                                                value={window.start}
+                                                onChange={(e) => updateScheduleWindow(day, index, { start: e.target.value })}
+                                                className="form-field"
+                                            />
+                                            <span className="radio-label">–</span>
+                                            {/* Time inputs cannot show 24:00, the end of the day */}
+                                            <input
+                                                type="time"
+                                                value={window.end === '24:00' ? '00:00' : window.end}
+                                                onChange={(e) => updateScheduleWindow(day, index, { end: e.target.value === '00:00' ? '24:00' : e.target.value })}
+                                                className="form-field"
+                                            />
+                                            <button type="button" className="button button-secondary" onClick={() => removeScheduleWindow(day, index)}>
+                                                {t('options.removeScheduleWindow')}
+                                            </button>
+                                        </React.Fragment>
+                                    ))}
+                                    <button type="button" className="button button-secondary" onClick={() => addScheduleWindow(day)}>
+                                        {t('options.addScheduleWindow')}
+                                    </button>
+                                </div>
+                            ))}
+                            {validateSchedule(config.schedule).errors.length > 0 && (
+                                <div className="rule-errors">
+                                    {validateSchedule(config.schedule).errors.map((error) => <div key={error}>{error}</div>)}
+                                </div>
+                            )}
+                            <div className="checkbox-item">
+                                <input
+                                    id="schedule_track_locally"
+                                    type="checkbox"
+                                    checked={config.schedule.track_locally}
+                                    onChange={(e) => updateSchedule({ track_locally: e.target.checked })}
+                                />
+                                <label htmlFor="schedule_track_locally" className="radio-label">{t('options.scheduleTrackLocally')}</label>
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {/* Keyboard Shortcuts */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.shortcuts')}</label>
+                    <table className="history-table">
+                        <tbody>
+                            {commands.filter((command) => command.name !== '_execute_action').map((command) => (
+                                <tr key={command.name}>
+                                    <td>{command.description}</td>
+                                    <td>{command.shortcut || t('options.shortcutNotSet')}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="target-row">
+                        <button type="button" className="button button-secondary" onClick={openShortcutSettings}>
+                            {t('options.changeShortcuts')}
+                        </button>
+                    </div>
+                    <div className="form-helper">{t('options.shortcutsHelp')}</div>
+                </div>
+
+                {/* Failure Notifications */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.failureNotifications')}</label>
+                    {FAILURE_REASONS.map((reason) => (
+                        <div key={reason} className="checkbox-item">
+                            <input
+                                id={`failure-${reason}`}
+                                type="checkbox"
+                                checked={config.failure_notifications.includes(reason)}
+                                onChange={() => toggleFailureNotification(reason)}
+                            />
+                            <label htmlFor={`failure-${reason}`} className="radio-label">{t(`options.failure.${reason}`)}</label>
+                        </div>
+                    ))}
+                    <div className="form-helper">{t('options.failureNotificationsHelp')}</div>
+                </div>
+
+                {/* Heartbeat */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.heartbeat')}</label>
+                    <div className="checkbox-item">
                         <input
-                            id="webhook_url"
-                            type="text"
-                            value={config.webhook_url}
-                            onChange={(e) => setConfig({ ...config, webhook_url: e.target.value })}
-                            className="form-field"
-                            placeholder="https://ha.example.com/api/webhook/entity_webhook"
+                            id="heartbeat_enabled"
+                            type="checkbox"
+                            checked={config.heartbeat_enabled}
+                            onChange={(e) => setConfig({ ...config, heartbeat_enabled: e.target.checked })}
                         />
-                        <div className="form-helper" dangerouslySetInnerHTML={{ __html: t('options.webhookUrlHelp') }}></div>
+                        <label htmlFor="heartbeat_enabled" className="radio-label">{t('options.heartbeatEnabled')}</label>
                     </div>
+                    <div className="form-helper">{t('options.heartbeatHelp')}</div>
+                </div>
+
+                {config.heartbeat_enabled && (
+                    <>
+                        <div className="form-section">
+                            <label htmlFor="heartbeat_interval" className="form-label">{t('options.heartbeatInterval')}</label>
+                            <input
+                                id="heartbeat_interval"
+                                type="number"
+                                min={1}
+                                max={60}
+                                value={config.heartbeat_interval}
+                                onChange={(e) => setConfig({ ...config, heartbeat_interval: Number(e.target.value) })}
+                                className="form-field"
+                            />
+                        </div>
+
+                        <div className="form-section">
+                            <label className="form-label">{t('options.heartbeatAutomation')}</label>
+                            {target.method === "mqtt" ? (
+                                <div className="form-helper">{t('options.heartbeatMqtt')}</div>
+                            ) : getHeartbeatAutomation(config, target) !== null ? (
+                                <>
+                                    <pre className="automation-snippet">{getHeartbeatAutomation(config, target)}</pre>
+                                    <div className="form-helper">{t('options.heartbeatAutomationHelp')}</div>
+                                </>
+                            ) : (
+                                <div className="form-helper">{t('options.heartbeatNoAutomation')}</div>
+                            )}
+                        </div>
+                    </>
                 )}
 
+                {/* Rules */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.rules')}</label>
+                    <div className="form-helper">{t('options.rulesHelp')}</div>
+                    {config.rules.map((rule) => {
+                        const ruleErrors = validateRule(rule, config.targets).errors;
+                        return (
+                            <div key={rule.id} className="rule-card">
+                                <div className="rule-row">
+                                    <input
+                                        type="text"
+                                        value={rule.name}
+                                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                                        className="form-field"
+                                        placeholder={t('options.ruleName')}
+                                    />
+                                    <div className="checkbox-item">
+                                        <input
+                                            id={`rule-enabled-${rule.id}`}
+                                            type="checkbox"
+                                            checked={rule.enabled}
+                                            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                                        />
+                                        <label htmlFor={`rule-enabled-${rule.id}`} className="radio-label">{t('options.ruleEnabled')}</label>
+                                    </div>
+                                </div>
+
+                                <div className="rule-row">
+                                    <label className="state-option-label">{t('options.ruleTrigger')}</label>
+                                    <select
+                                        className="language-select"
+                                        value={rule.trigger}
+                                        onChange={(e) => updateRule(rule.id, { trigger: e.target.value as Rule['trigger'] })}
+                                    >
+                                        {RULE_TRIGGERS.map((trigger) => (
+                                            <option key={trigger} value={trigger}>{t(`options.trigger.${trigger}`)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div className="rule-row">
+                                    <label className="state-option-label">{t('options.ruleTarget')}</label>
+                                    <select
+                                        className="language-select"
+                                        value={rule.target_id}
+                                        onChange={(e) => updateRule(rule.id, { target_id: e.target.value })}
+                                    >
+                                        <option value="">{t('options.allTargets')}</option>
+                                        {config.targets.filter((item) => item.method === "api" || item.method === "event").map((item) => (
+                                            <option key={item.id} value={item.id}>{item.name || t('options.unnamedTarget')}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div className="rule-row">
+                                    <label className="state-option-label">{t('options.ruleConditions')}</label>
+                                    <span className="radio-label">{t('options.timeAfter')}</span>
+                                    <input
+                                        type="time"
+                                        value={rule.conditions.time_after}
+                                        onChange={(e) => updateRule(rule.id, { conditions: { ...rule.conditions, time_after: e.target.value } })}
+                                        className="form-field"
+                                    />
+                                    <span className="radio-label">{t('options.timeBefore')}</span>
+                                    <input
+                                        type="time"
+                                        value={rule.conditions.time_before}
+                                        onChange={(e) => updateRule(rule.id, { conditions: { ...rule.conditions, time_before: e.target.value } })}
+                                        className="form-field"
+                                    />
+                                </div>
+
+                                <div className="rule-row">
+                                    <span className="state-option-label"></span>
+                                    {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                                        <div key={day} className="checkbox-item">
+                                            <input
+                                                id={`rule-day-${rule.id}-${day}`}
+                                                type="checkbox"
+                                                checked={rule.conditions.weekdays.includes(day)}
+                                                onChange={() => toggleRuleWeekday(rule, day)}
+                                            />
+                                            {/* 7 January 2024 was a Sunday */}
+                                            <label htmlFor={`rule-day-${rule.id}-${day}`} className="radio-label">
+                                                {new Date(2024, 0, 7 + day).toLocaleDateString(undefined, { weekday: 'short' })}
+                                            </label>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="rule-row">
+                                    <span className="state-option-label"></span>
+                                    <input
+                                        type="text"
+                                        value={rule.conditions.meeting_code_pattern}
+                                        onChange={(e) => updateRule(rule.id, { conditions: { ...rule.conditions, meeting_code_pattern: e.target.value.trim() } })}
+                                        className="form-field"
+                                        placeholder={t('options.meetingCodePattern')}
+                                    />
+                                </div>
+
+                                <label className="form-label">{t('options.ruleActions')}</label>
+                                {rule.actions.map((action, index) => (
+                                    <div key={index} className="rule-action">
+                                        <div className="rule-row">
+                                            <input
+                                                type="text"
+                                                value={action.service}
+                                                onChange={(e) => updateRuleAction(rule, index, { service: e.target.value.trim() })}
+                                                className="form-field"
+                                                placeholder={t('options.actionService')}
+                                            />
+                                            <button
+                                                type="button"
+                                                className="button button-secondary"
+                                                onClick={() => updateRule(rule.id, { actions: rule.actions.filter((_, i) => i !== index) })}
+                                            >
+                                                {t('options.removeAction')}
+                                            </button>
+                                        </div>
+                                        <textarea
+                                            value={action.data}
+                                            onChange={(e) => updateRuleAction(rule, index, { data: e.target.value })}
+                                            className="form-field"
+                                            rows={2}
+                                            placeholder={t('options.actionData')}
+                                        />
+                                    </div>
+                                ))}
+
+                                {ruleErrors.length > 0 && (
+                                    <div className="rule-errors">
+                                        {ruleErrors.map((error) => <div key={error}>{error}</div>)}
+                                    </div>
+                                )}
+
+                                <div className="rule-row">
+                                    <button
+                                        type="button"
+                                        className="button button-secondary"
+                                        onClick={() => updateRule(rule.id, { actions: [...rule.actions, createRuleAction()] })}
+                                    >
+                                        {t('options.addAction')}
+                                    </button>
+                                    <button type="button" className="button button-secondary" onClick={() => removeRule(rule.id)}>
+                                        {t('options.removeRule')}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <button type="button" className="button button-secondary" onClick={addRule}>
+                        {t('options.addRule')}
+                    </button>
+                </div>
+
+                {/* Meeting History */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.history')}</label>
+                    {sessions.length === 0 ? (
+                        <div className="form-helper">{t('options.historyEmpty')}</div>
+                    ) : (() => {
+                        const stats = getHistoryStats(sessions);
+                        const longestStreak = stats.streaks.reduce<typeof stats.streaks[number] | null>(
+                            (longest, streak) => (longest === null || streak.count > longest.count ? streak : longest), null);
+                        return (
+                            <>
+                                <table className="history-table">
+                                    <thead>
+                                        <tr>
+                                            <th>{t('options.historyDay')}</th>
+                                            <th>{t('options.historyTotal')}</th>
+                                            <th>{t('options.historyCount')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {stats.days.map((day, index) => (
+                                            <tr key={day.date}>
+                                                <td>{index === stats.days.length - 1 ? t('options.historyToday') : new Date(`${day.date}T00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}</td>
+                                                <td>{formatDuration(day.duration)}</td>
+                                                <td>{day.count}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+
+                                <table className="history-table">
+                                    <thead>
+                                        <tr>
+                                            <th>{t('options.historyWeekOf')}</th>
+                                            <th>{t('options.historyTotal')}</th>
+                                            <th>{t('options.historyCount')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {stats.weeks.map((week, index) => (
+                                            <tr key={week.date}>
+                                                <td>{index === stats.weeks.length - 1 ? t('options.historyThisWeek') : new Date(`${week.date}T00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}</td>
+                                                <td>{formatDuration(week.duration)}</td>
+                                                <td>{week.count}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+
+                                {stats.longest !== null && (
+                                    <div className="form-helper">
+                                        {t('options.historyLongest')}: {formatDuration(stats.longest.end - stats.longest.start)}
+                                        {' · '}
+                                        {stats.longest.meetingTitle ?? stats.longest.meetingCode ?? ''} {new Date(stats.longest.start).toLocaleString()}
+                                    </div>
+                                )}
+                                <div className="form-helper">
+                                    {t('options.historyStreaks')}: {stats.streaks.length}
+                                    {longestStreak !== null && ` (${t('options.historyLongestStreak')}: ${longestStreak.count} × ${formatDuration(longestStreak.end - longestStreak.start)}, ${new Date(longestStreak.start).toLocaleDateString()})`}
+                                </div>
+
+                                <div className="target-row">
+                                    <button type="button" className="button button-secondary" onClick={() => exportHistory('csv')}>
+                                        {t('options.exportCsv')}
+                                    </button>
+                                    <button type="button" className="button button-secondary" onClick={() => exportHistory('json')}>
+                                        {t('options.exportJson')}
+                                    </button>
+                                    <button type="button" className="button button-secondary" onClick={clearSessions}>
+                                        {t('options.clearHistory')}
+                                    </button>
+                                </div>
+                            </>
+                        );
+                    })()}
+                    <div className="form-helper">{t('options.historyHelp')}</div>
+                </div>
+
+                <div className="form-section">
+                    <label htmlFor="history_retention_days" className="form-label">{t('options.historyRetention')}</label>
+                    <input
+                        id="history_retention_days"
+                        type="number"
+                        min={1}
+                        max={3650}
+                        value={config.history_retention_days}
+                        onChange={(e) => setConfig({ ...config, history_retention_days: Number(e.target.value) })}
+                        className="form-field"
+                    />
+                </div>
+
+                {/* Diagnostics */}
+                <div className="form-section">
+                    <label className="form-label">{t('options.diagnostics')}</label>
+                    {requestLog.length === 0 ? (
+                        <div className="form-helper">{t('options.diagnosticsEmpty')}</div>
+                    ) : (
+                        <div className="diagnostics-table-wrapper">
+                            <table className="history-table diagnostics-table">
+                                <thead>
+                                    <tr>
+                                        <th>{t('options.diagnosticsTime')}</th>
+                                        <th>{t('options.diagnosticsTarget')}</th>
+                                        <th>{t('options.diagnosticsMethod')}</th>
+                                        <th>{t('options.diagnosticsUrl')}</th>
+                                        <th>{t('options.diagnosticsStatus')}</th>
+                                        <th>{t('options.diagnosticsLatency')}</th>
+                                        <th>{t('options.diagnosticsAttempt')}</th>
+                                        <th>{t('options.diagnosticsError')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {requestLog.map((entry, index) => (
+                                        <tr key={`${entry.timestamp}-${index}`}>
+                                            <td>{new Date(entry.timestamp).toLocaleString()}</td>
+                                            <td>{entry.targetName}</td>
+                                            <td>{entry.method}</td>
+                                            <td>{entry.url}</td>
+                                            <td>{entry.status ?? '–'}</td>
+                                            <td>{entry.latency} ms</td>
+                                            <td>{entry.attempt}</td>
+                                            <td className="diagnostics-error">{entry.error ?? ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    <div className="target-row">
+                        <button type="button" className="button button-secondary" onClick={refreshRequestLog}>
+                            {t('options.refresh')}
+                        </button>
+                        <button type="button" className="button button-secondary" onClick={exportDiagnostics}>
+                            {t('options.exportJson')}
+                        </button>
+                        <button type="button" className="button button-secondary" onClick={clearDiagnostics}>
+                            {t('options.clearDiagnostics')}
+                        </button>
+                    </div>
+                    <div className="form-helper">{t('options.diagnosticsHelp')}</div>
+                </div>
+
                 {/* Messages */}
                 {saved && (
                     <div className="message message-success">
@@ -832,6 +2554,12 @@ const Options = () => {
                     </div>
                 )}
 
+                {webhookAccessDenied && (
+                    <div className="message message-error">
+                        {t('options.webhookAccessDenied')}
+                    </div>
+                )}
+
                 {testStatus === 'complete' && (
                     <div className={`message ${testResult.success ? 'message-success' : 'message-error'}`}>
                         {testResult.message}
@@ -0,0 +1,128 @@
+/**
+ * Offline outbox for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This module keeps the updates that could not be delivered (e.g. leaving a meeting on
+ * a train) in `chrome.storage.local`, so they survive the service worker being stopped
+ * and can be replayed once Home Assistant is reachable again. Without it, a light turned
+ * on at the start of a call could stay on forever.
+ *
+ * The outbox is collapsed per target: only the latest meeting status matters, together
+ * with the last status the target actually received, so the replay sends everything
+ * that changed in between in a single update.
+ *
+ * METHODS:
+ * - getPendingUpdates(): Gets the queued update of each target
+ * - getPendingUpdate(): Gets the queued update of a target
+ * - queueUpdate(): Queues an update for a target, replacing any older one
+ * - removeUpdate(): Removes the queued update of a target once delivered
+ *
+ * INTERFACES:
+ * - PendingUpdate: Update waiting to be delivered to a target
+ */
+
+import { MeetingStatus } from "./meet";
+
+// Key of the outbox in chrome.storage.local
+const OUTBOX_KEY = "outbox";
+
+// Outbox changes run one after another, as targets are updated in parallel
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Update waiting to be delivered to a target
+ */
+export interface PendingUpdate {
+    /** ID of the target */
+    targetId: string;
+    /** Latest meeting status to deliver */
+    status: MeetingStatus;
+    /** Last meeting status delivered to the target, or null to publish everything */
+    previous: MeetingStatus | null;
+    /** When the update was first queued (milliseconds since epoch) */
+    queuedAt: number;
+    /** When the update was last replaced or retried (milliseconds since epoch) */
+    updatedAt: number;
+    /** Number of failed deliveries */
+    attempts: number;
+}
+
+/**
+ * Gets the queued update of each target
+ * @returns Promise that resolves to the queued updates, keyed by target ID
+ */
+export async function getPendingUpdates(): Promise<Record<string, PendingUpdate>> {
+    const stored = await chrome.storage.local.get(OUTBOX_KEY);
+    return stored[OUTBOX_KEY] ?? {};
+}
+
+/**
+ * Reads, changes and writes the outbox without racing other changes
+ * @param change - Changes the outbox in place; returns false to skip writing it
+ */
+function changeOutbox(change: (outbox: Record<string, PendingUpdate>) => boolean): Promise<void> {
+    const next = pendingChange.then(async () => {
+        const outbox = await getPendingUpdates();
+        if (change(outbox)) {
+            await chrome.storage.local.set({ [OUTBOX_KEY]: outbox });
+        }
+    });
+
+    // A failed change must not block the following ones
+    pendingChange = next.catch(() => undefined);
+    return next;
+}
+
+/**
+ * Gets the queued update of a target
+ * @param targetId - ID of the target
+ * @returns Promise that resolves to the queued update, or null if there is none
+ */
+export async function getPendingUpdate(targetId: string): Promise<PendingUpdate | null> {
+    const outbox = await getPendingUpdates();
+    return outbox[targetId] ?? null;
+}
+
+/**
+ * Queues an update for a target, replacing any older one
+ *
+ * The previous status of the older update is kept, as the target never received the
+ * statuses queued in between.
+ *
+ * @param targetId - ID of the target
+ * @param status - Meeting status that could not be delivered
+ * @param previous - Last meeting status delivered to the target
+ */
+export async function queueUpdate(targetId: string, status: MeetingStatus, previous: MeetingStatus | null) {
+    await changeOutbox((outbox) => {
+        const existing = outbox[targetId];
+        const now = Date.now();
+
+        outbox[targetId] = {
+            targetId,
+            status,
+            previous: existing ? existing.previous : previous,
+            queuedAt: existing ? existing.queuedAt : now,
+            updatedAt: now,
+            attempts: (existing?.attempts ?? 0) + 1,
+        };
+        return true;
+    });
+}
+
+/**
+ * Removes the queued update of a target once delivered
+ * @param targetId - ID of the target
+ * @param updatedAt - Only remove the update if it was not replaced since this time
+ */
+export async function removeUpdate(targetId: string, updatedAt?: number) {
+    await changeOutbox((outbox) => {
+        const existing = outbox[targetId];
+        if (existing === undefined || (updatedAt !== undefined && existing.updatedAt !== updatedAt)) {
+            return false;
+        }
+
+        delete outbox[targetId];
+        return true;
+    });
+}
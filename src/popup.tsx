@@ -9,7 +9,11 @@
  * The popup shows:
  * - Current meeting status (in meeting or not)
  * - Configuration status (properly configured or not)
- * - Selected integration method (API or Webhook)
+ * - Selected integration method (API, Webhook, Event or MQTT), or the number of targets
+ * - Whether the last update reached each Home Assistant target
+ * - Meeting entities changed in Home Assistant, when the reconciliation only warns
+ * - Manual override and pause of the automatic updates
+ * - Active configuration profile, when several exist
  * - Last update timestamp
  * - Quick access to settings
  *
@@ -18,6 +22,9 @@
  * - Visual status indicators with icons and colors
  * - Configuration validation display
  * - One-click access to options page
+ * - Forcing the meeting entity on or off (e.g. for phone calls), or pausing the updates
+ *   for 30 minutes, an hour or until tomorrow
+ * - Switching to another configuration profile, e.g. "Home" or "Office"
  * - Responsive design optimized for extension popup dimensions
  *
  * COMPONENTS:
@@ -25,26 +32,43 @@
  * - Theme configuration for consistent Material-UI styling
  *
  * METHODS:
- * - checkMeetingStatus(): Queries Chrome tabs to detect Google Meet sessions
+ * - checkMeetingStatus(): Asks the background worker whether a Google Meet call is active
  * - openOptionsPage(): Opens the extension options page
+ * - overrideEntity(): Forces the meeting entity on or off, or sets it back to automatic
+ * - pause(): Pauses the automatic updates, or resumes them
+ * - selectProfile(): Makes another configuration profile active
  * - getConfigurationStatus(): Returns current configuration status with visual indicators
  * - getMeetingStatus(): Returns current meeting status with visual indicators
  *
  * STATE MANAGEMENT:
  * - config: Current extension configuration
  * - isInMeeting: Boolean indicating if user is currently in a Google Meet
+ * - meetingState: Detailed meeting state (idle, lobby, in call, presenting, ended)
+ * - media: Microphone, camera and presenting state while in a meeting
+ * - targetResults: Result of the last update delivered to each target
+ * - control: Manual override and pause applied by the background worker
+ * - profiles: Configuration profiles and the ID of the active one
  * - lastUpdate: Timestamp of last status check
  *
  * UI ELEMENTS:
  * - Header with extension logo and settings button
- * - Configuration status chip (success/error with method type)
+ * - Profile selector (with several profiles)
+ * - Configuration status chip (success/error with method type or number of targets)
  * - Meeting status chip (in meeting/not in meeting)
+ * - Microphone, camera and presenting chip (while in a meeting)
+ * - One chip per target with the result of its last update
+ * - Warning chip per target whose meeting entity disagrees with the meeting state
+ * - Override and pause buttons, with a chip while overridden or paused
  * - Last update timestamp
  */
 
 import React, { useEffect, useState } from "react";
 import ReactDOM from "react-dom";
 import { Config, defaultConfig, loadConfig, validateConfig } from "./config";
+import { getPauseEnd, isPaused, ManualControl, PauseDuration } from "./control";
+import { TargetResult } from "./hass";
+import { MediaState, MeetingState } from "./meet";
+import { getProfiles, ProfileList } from "./profiles";
 
 // Simple translation function with language detection
 const getLanguage = (): string => {
@@ -82,8 +106,36 @@ const t = (key: string): string => {
             'popup.notInMeeting': 'Not in meeting',
             'popup.lastUpdated': 'Last updated',
             'popup.openConfiguration': 'Open configuration',
+            'popup.devices': 'Microphone & Camera',
+            'popup.microphoneLive': 'Mic live',
+            'popup.microphoneMuted': 'Mic muted',
+            'popup.cameraOn': 'Camera on',
+            'popup.cameraOff': 'Camera off',
+            'popup.presenting': 'Presenting',
+            'popup.inLobby': 'Waiting to join',
+            'popup.meetingEnded': 'Meeting ended',
             'options.api': 'API',
-            'options.webhook': 'Webhook'
+            'options.webhook': 'Webhook',
+            'options.event': 'Event',
+            'options.mqtt': 'MQTT',
+            'popup.targets': 'targets',
+            'popup.targetStatus': 'Home Assistant Targets',
+            'popup.delivered': 'updated',
+            'popup.failed': 'failed',
+            'popup.pending': 'pending, will retry',
+            'popup.mismatch': 'Home Assistant shows',
+            'popup.manualControl': 'Manual Control',
+            'popup.forceOn': 'Force on',
+            'popup.forceOff': 'Force off',
+            'popup.automatic': 'Automatic',
+            'popup.forcedOn': 'Meeting entity forced on',
+            'popup.forcedOff': 'Meeting entity forced off',
+            'popup.pause30m': 'Pause 30 min',
+            'popup.pause1h': 'Pause 1 h',
+            'popup.pauseTomorrow': 'Pause until tomorrow',
+            'popup.resume': 'Resume',
+            'popup.pausedUntil': 'Updates paused until',
+            'popup.profile': 'Profile'
         },
         'pt-br': {
             'popup.title': 'Google Meet ↔ HA',
@@ -313,6 +365,47 @@ const popupStyles = `
         color: #666;
         border: 1px solid #e0e0e0;
     }
+    .status-chip.warning {
+        background: #fff8e1;
+        color: #e65100;
+        border: 1px solid #ffe082;
+    }
+    .target-chip {
+        margin-bottom: 4px;
+    }
+    .control-buttons {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        margin-top: 6px;
+    }
+    .control-button {
+        flex: 1;
+        padding: 6px 8px;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        background: #fff;
+        color: #333;
+        font-size: 12px;
+        cursor: pointer;
+        white-space: nowrap;
+    }
+    .control-button:hover {
+        background: #f5f5f5;
+    }
+    .control-button.active {
+        background: #f3e5f5;
+        border-color: #ce93d8;
+        color: #7b1fa2;
+    }
+    .profile-select {
+        width: 100%;
+        padding: 6px 8px;
+        border: 1px solid #e0e0e0;
+        border-radius: 4px;
+        background: #fff;
+        font-size: 14px;
+    }
     .status-icon {
         font-size: 16px;
     }
@@ -330,16 +423,27 @@ const popupStyles = `
 const Popup = () => {
     const [config, setConfig] = useState<Config>(defaultConfig);
     const [isInMeeting, setIsInMeeting] = useState<boolean>(false);
+    const [meetingState, setMeetingState] = useState<MeetingState>("idle");
+    const [media, setMedia] = useState<MediaState>({ microphone: false, camera: false, presenting: false });
+    const [targetResults, setTargetResults] = useState<TargetResult[]>([]);
+    const [control, setControl] = useState<ManualControl | null>(null);
+    const [profiles, setProfiles] = useState<ProfileList | null>(null);
     const [lastUpdate, setLastUpdate] = useState<string>("");
 
     /**
      * Check meeting status and update timestamp
      */
     const checkMeetingStatus = () => {
-        chrome.tabs.query({
-            url: "https://meet.google.com/*-*-*",
-        }).then((tabs) => {
-            setIsInMeeting(tabs.length > 0);
+        chrome.runtime.sendMessage({ type: "get-meeting-state" }, (response) => {
+            if (chrome.runtime.lastError || !response) {
+                return;
+            }
+
+            setIsInMeeting(response.isInMeeting);
+            setMeetingState(response.state);
+            setMedia(response.media);
+            setTargetResults(response.targets ?? []);
+            setControl(response.control ?? null);
             setLastUpdate(new Date().toLocaleTimeString());
         });
     };
@@ -356,6 +460,10 @@ const Popup = () => {
             setConfig(defaultConfig);
         });
 
+        getProfiles().then(setProfiles).catch((error) => {
+            console.error("Error loading profiles:", error);
+        });
+
         checkMeetingStatus();
 
         // Check meeting status every 2 seconds
@@ -371,6 +479,50 @@ const Popup = () => {
         chrome.runtime.openOptionsPage();
     };
 
+    /**
+     * Forces the meeting entity on or off, or sets it back to automatic
+     * @param override - Forced value, or null to follow the Meet tabs
+     */
+    const overrideEntity = (override: boolean | null) => {
+        chrome.runtime.sendMessage({ type: "set-override", override }, (response) => {
+            if (chrome.runtime.lastError || !response) {
+                return;
+            }
+            setControl(response);
+            checkMeetingStatus();
+        });
+    };
+
+    /**
+     * Pauses the automatic updates, or resumes them
+     * @param duration - How long to pause, or null to resume now
+     */
+    const pause = (duration: PauseDuration | null) => {
+        const pausedUntil = duration === null ? null : getPauseEnd(duration);
+        chrome.runtime.sendMessage({ type: "pause-updates", pausedUntil }, (response) => {
+            if (chrome.runtime.lastError || !response) {
+                return;
+            }
+            setControl(response);
+            checkMeetingStatus();
+        });
+    };
+
+    /**
+     * Makes another configuration profile active through the background worker, which
+     * ends a meeting in progress on the previous targets and sends it to the new ones
+     * @param id - ID of the profile
+     */
+    const selectProfile = (id: string) => {
+        chrome.runtime.sendMessage({ type: "switch-profile", profileId: id }, async (response: Config | null) => {
+            if (chrome.runtime.lastError || !response) {
+                return;
+            }
+            setConfig(response);
+            setProfiles(await getProfiles());
+        });
+    };
+
     /**
      * Gets the current configuration status
      * @returns Object containing status information
@@ -387,10 +539,12 @@ const Popup = () => {
             };
         }
 
-        const methodText = config.method === 'api' ? t('options.api') : t('options.webhook');
+        // Show the method of a single target, or the number of targets
+        const targets = config.targets.filter((target) => target.enabled);
+        const detailText = targets.length === 1 ? t(`options.${targets[0].method}`) : `${targets.length} ${t('popup.targets')}`;
         return {
             status: 'configured',
-            message: `${t('popup.properlyConfigured')} (${methodText})`,
+            message: `${t('popup.properlyConfigured')} (${detailText})`,
             icon: '✅',
             className: 'configured'
         };
@@ -408,6 +562,20 @@ const Popup = () => {
                 icon: '📹',
                 className: 'meeting'
             };
+        } else if (meetingState === 'lobby') {
+            return {
+                status: 'lobby',
+                message: t('popup.inLobby'),
+                icon: '⏳',
+                className: 'idle'
+            };
+        } else if (meetingState === 'ended') {
+            return {
+                status: 'ended',
+                message: t('popup.meetingEnded'),
+                icon: '👋',
+                className: 'idle'
+            };
         } else {
             return {
                 status: 'idle',
@@ -420,6 +588,8 @@ const Popup = () => {
 
     const configStatus = getConfigurationStatus();
     const meetingStatus = getMeetingStatus();
+    const override = control?.override ?? null;
+    const paused = control !== null && isPaused(control);
 
     return (
         <>
@@ -440,6 +610,22 @@ const Popup = () => {
                     </button>
                 </div>
 
+                {/* Profile */}
+                {profiles !== null && profiles.profiles.length > 1 && (
+                    <div className="status-section">
+                        <div className="status-label">{t('popup.profile')}</div>
+                        <select
+                            className="profile-select"
+                            value={profiles.activeId}
+                            onChange={(e) => selectProfile(e.target.value)}
+                        >
+                            {profiles.profiles.map((profile) => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
                 {/* Configuration Status */}
                 <div className="status-section">
                     <div className="status-label">{t('popup.configurationStatus')}</div>
@@ -458,6 +644,92 @@ const Popup = () => {
                     </div>
                 </div>
 
+                {/* Manual Control */}
+                <div className="status-section">
+                    <div className="status-label">{t('popup.manualControl')}</div>
+                    {paused && (
+                        <div className="status-chip warning">
+                            <span className="status-icon">⏸️</span>
+                            {t('popup.pausedUntil')} {new Date(control?.pausedUntil ?? 0).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                        </div>
+                    )}
+                    {override !== null && (
+                        <div className="status-chip warning">
+                            <span className="status-icon">✋</span>
+                            {override ? t('popup.forcedOn') : t('popup.forcedOff')}
+                        </div>
+                    )}
+                    <div className="control-buttons">
+                        <button className={`control-button ${override === true ? 'active' : ''}`} onClick={() => overrideEntity(true)}>
+                            {t('popup.forceOn')}
+                        </button>
+                        <button className={`control-button ${override === false ? 'active' : ''}`} onClick={() => overrideEntity(false)}>
+                            {t('popup.forceOff')}
+                        </button>
+                        {override !== null && (
+                            <button className="control-button" onClick={() => overrideEntity(null)}>
+                                {t('popup.automatic')}
+                            </button>
+                        )}
+                    </div>
+                    <div className="control-buttons">
+                        {paused ? (
+                            <button className="control-button active" onClick={() => pause(null)}>
+                                {t('popup.resume')}
+                            </button>
+                        ) : (
+                            <>
+                                <button className="control-button" onClick={() => pause('30m')}>
+                                    {t('popup.pause30m')}
+                                </button>
+                                <button className="control-button" onClick={() => pause('1h')}>
+                                    {t('popup.pause1h')}
+                                </button>
+                                <button className="control-button" onClick={() => pause('tomorrow')}>
+                                    {t('popup.pauseTomorrow')}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                {/* Microphone & Camera */}
+                {isInMeeting && (
+                    <div className="status-section">
+                        <div className="status-label">{t('popup.devices')}</div>
+                        <div className={`status-chip ${media.microphone ? 'error' : 'idle'}`}>
+                            <span className="status-icon">{media.microphone ? '🎤' : '🔇'}</span>
+                            {media.microphone ? t('popup.microphoneLive') : t('popup.microphoneMuted')}
+                            {' · '}
+                            {media.camera ? t('popup.cameraOn') : t('popup.cameraOff')}
+                            {media.presenting && ` · ${t('popup.presenting')}`}
+                        </div>
+                    </div>
+                )}
+
+                {/* Target Status */}
+                {targetResults.length > 0 && (
+                    <div className="status-section">
+                        <div className="status-label">{t('popup.targetStatus')}</div>
+                        {targetResults.map((result) => (
+                            <React.Fragment key={result.id}>
+                                <div className={`status-chip target-chip ${result.success ? 'configured' : 'error'}`}>
+                                    <span className="status-icon">{result.success ? '✅' : result.pending ? '⏳' : '❌'}</span>
+                                    {result.name}: {result.success ? t('popup.delivered') : result.pending ? t('popup.pending') : t('popup.failed')}
+                                    {' · '}
+                                    {new Date(result.timestamp).toLocaleTimeString()}
+                                </div>
+                                {result.mismatch !== null && (
+                                    <div className="status-chip target-chip warning">
+                                        <span className="status-icon">⚠️</span>
+                                        {result.name}: {t('popup.mismatch')} "{result.mismatch}"
+                                    </div>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+
                 {/* Last Update */}
                 {lastUpdate && (
                     <div className="last-updated">
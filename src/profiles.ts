@@ -0,0 +1,302 @@
+/**
+ * Configuration profiles for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * The same browser may be used at home and in the office, with different Home Assistant
+ * instances and entities. A profile is a complete, named configuration; the popup selects
+ * the active one, and profiles can also be switched automatically, e.g. when their Home
+ * Assistant instance is reachable or during working hours.
+ *
+ * STORAGE:
+ * The settings of the active profile stay at the top level of `chrome.storage.sync`, so
+ * `loadConfig()` and `saveConfig()` always work on the active profile. The settings of the
+ * other profiles are kept under "profile:<id>" keys, and swapped in when switching. Each
+ * of them is a single storage item, so it is limited to the 8 KB Chrome allows per item.
+ *
+ * Target IDs are unique across profiles, as the outbox, the failure notifications and the
+ * connections are keyed by target ID: the updates still pending for the targets of the
+ * previous profile are delivered to them after switching.
+ *
+ * AUTOMATIC SWITCHING:
+ * Profiles with automatic switching enabled are checked in order, and the first one whose
+ * conditions all match becomes active. A profile matches when its Home Assistant URL (if
+ * set) answers, and the time is within its time of day window and weekdays (if set).
+ *
+ * METHODS:
+ * - createProfile(): Creates a new profile with default values
+ * - getProfiles(): Gets the profiles and the ID of the active one
+ * - saveProfiles(): Saves the names and switching conditions of the profiles
+ * - addProfile(): Adds a profile, starting from a copy of a configuration with new target IDs
+ * - removeProfile(): Removes a profile that is not active
+ * - switchProfile(): Makes another profile active
+ * - getInactiveConfigs(): Gets the settings of the profiles that are not active
+ * - upgradeProfiles(): Writes the settings of the inactive profiles back in the current schema version
+ * - hasActiveProfileChanged(): Checks if a storage change switched the active profile
+ * - validateProfile(): Validates the name and switching conditions of a profile
+ * - selectProfile(): Picks the profile whose switching conditions match
+ *
+ * TYPES:
+ * - ConfigProfile: Named configuration and its switching conditions
+ * - ProfileList: Profiles and the ID of the active one
+ */
+
+import { Config, createTarget, loadConfig, toConfig } from "./config";
+import { checkHostReachable } from "./hass";
+import { migrateConfig, StoredConfig } from "./migrations";
+import { matchesConditions } from "./rules";
+
+// Key of the profile list in chrome.storage.sync
+const PROFILES_KEY = "profiles";
+
+// Key of the ID of the active profile in chrome.storage.sync
+const ACTIVE_PROFILE_KEY = "active_profile";
+
+// Prefix of the keys keeping the settings of the inactive profiles
+const PROFILE_PREFIX = "profile:";
+
+// ID of the profile holding the settings saved before profiles existed
+const DEFAULT_PROFILE_ID = "default";
+
+/**
+ * Named configuration and the conditions making it active automatically
+ */
+export interface ConfigProfile {
+    /** Unique identifier of the profile */
+    id: string;
+    /** Name shown in the popup and options page, e.g. "Home" or "Office" */
+    name: string;
+    /** Whether the profile becomes active when its conditions match */
+    auto_switch: boolean;
+    /** Home Assistant URL that must answer, e.g. "http://homeassistant.local:8123", or "" for any */
+    reachable_host: string;
+    /** Start of the time of day window, "HH:MM" in local time, or "" */
+    time_after: string;
+    /** End of the time of day window, "HH:MM" in local time, or "" */
+    time_before: string;
+    /** Days of the week the profile is used on, 0 (Sunday) to 6 (Saturday), or none for every day */
+    weekdays: number[];
+}
+
+/**
+ * Profiles and the ID of the active one
+ */
+export interface ProfileList {
+    /** Profiles, in display and switching order */
+    profiles: ConfigProfile[];
+    /** ID of the active profile */
+    activeId: string;
+}
+
+/**
+ * Creates a new profile with default values
+ * @param name - Name of the profile
+ * @param id - Identifier of the profile (default: a new unique identifier)
+ * @returns The new profile
+ */
+export function createProfile(name: string, id: string = Date.now().toString(36) + Math.random().toString(36).slice(2, 8)): ConfigProfile {
+    return {
+        id,
+        name,
+        auto_switch: false,
+        reachable_host: "",
+        time_after: "",
+        time_before: "",
+        weekdays: [],
+    };
+}
+
+/**
+ * Gets the profiles and the ID of the active one
+ * @returns Promise that resolves to the profiles; a single "Default" profile before any was added
+ */
+export async function getProfiles(): Promise<ProfileList> {
+    const stored = await chrome.storage.sync.get([PROFILES_KEY, ACTIVE_PROFILE_KEY]);
+    const profiles: ConfigProfile[] = (stored[PROFILES_KEY] ?? [createProfile("Default", DEFAULT_PROFILE_ID)])
+        .map((profile: ConfigProfile) => ({ ...createProfile(profile.name, profile.id), ...profile }));
+
+    const activeId = stored[ACTIVE_PROFILE_KEY] ?? DEFAULT_PROFILE_ID;
+    return { profiles, activeId: profiles.some((profile) => profile.id === activeId) ? activeId : profiles[0].id };
+}
+
+/**
+ * Saves the names and switching conditions of the profiles
+ * @param profiles - Profiles, in display and switching order
+ */
+export async function saveProfiles(profiles: ConfigProfile[]) {
+    await chrome.storage.sync.set({ [PROFILES_KEY]: profiles });
+}
+
+/**
+ * Adds a profile, starting from a copy of a configuration
+ *
+ * The copied targets get new IDs, and the rules follow them, so the targets of both
+ * profiles do not share pending updates or connections.
+ *
+ * @param profile - Profile to add
+ * @param config - Initial settings of the profile
+ */
+export async function addProfile(profile: ConfigProfile, config: Config) {
+    const { profiles, activeId } = await getProfiles();
+
+    const targetIds = new Map(config.targets.map((target) => [target.id, createTarget(target.name).id]));
+    const copy: Config = {
+        ...config,
+        targets: config.targets.map((target) => ({ ...target, id: targetIds.get(target.id) ?? target.id })),
+        rules: config.rules.map((rule) => ({ ...rule, target_id: targetIds.get(rule.target_id) ?? rule.target_id })),
+    };
+
+    await chrome.storage.sync.set({
+        [PROFILE_PREFIX + profile.id]: copy,
+        [PROFILES_KEY]: [...profiles, profile],
+        [ACTIVE_PROFILE_KEY]: activeId,
+    });
+}
+
+/**
+ * Removes a profile and its settings
+ * @param id - ID of the profile, which must not be the active one
+ */
+export async function removeProfile(id: string) {
+    const { profiles, activeId } = await getProfiles();
+    if (id === activeId) {
+        throw new Error("The active profile cannot be removed");
+    }
+
+    await chrome.storage.sync.set({ [PROFILES_KEY]: profiles.filter((profile) => profile.id !== id) });
+    await chrome.storage.sync.remove(PROFILE_PREFIX + id);
+}
+
+/**
+ * Makes another profile active, keeping the settings of the previous one aside
+ * @param id - ID of the profile to activate
+ * @returns Promise that resolves to the configuration of the activated profile
+ */
+export async function switchProfile(id: string): Promise<Config> {
+    const { profiles, activeId } = await getProfiles();
+    if (!profiles.some((profile) => profile.id === id)) {
+        throw new Error(`Unknown profile "${id}"`);
+    }
+    if (id === activeId) {
+        return await loadConfig();
+    }
+
+    const stored = await chrome.storage.sync.get(PROFILE_PREFIX + id);
+    const current = await loadConfig();
+    const next = toConfig(stored[PROFILE_PREFIX + id] ?? {});
+
+    // The profile list is written too, so the default profile exists from now on
+    await chrome.storage.sync.set({
+        ...next,
+        [PROFILE_PREFIX + activeId]: current,
+        [PROFILES_KEY]: profiles,
+        [ACTIVE_PROFILE_KEY]: id,
+    });
+    await chrome.storage.sync.remove(PROFILE_PREFIX + id);
+    return next;
+}
+
+/**
+ * Gets the settings of the profiles that are not active, e.g. to deliver the updates still
+ * pending for their targets
+ * @returns Promise that resolves to the settings of each inactive profile
+ */
+export async function getInactiveConfigs(): Promise<Config[]> {
+    const stored = await chrome.storage.sync.get(null);
+    return Object.keys(stored)
+        .filter((key) => key.startsWith(PROFILE_PREFIX))
+        .map((key) => toConfig(stored[key]));
+}
+
+/**
+ * Writes the settings of the inactive profiles back in the current schema version; they
+ * are upgraded in memory anyway when switching to them
+ */
+export async function upgradeProfiles() {
+    const stored = await chrome.storage.sync.get(null);
+    const changes: StoredConfig = {};
+
+    for (const key of Object.keys(stored).filter((item) => item.startsWith(PROFILE_PREFIX))) {
+        const migrated = migrateConfig(stored[key]);
+        if (migrated !== stored[key]) {
+            changes[key] = migrated;
+        }
+    }
+
+    if (Object.keys(changes).length > 0) {
+        await chrome.storage.sync.set(changes);
+    }
+}
+
+/**
+ * Checks if a storage change switched the active profile
+ * @param changes - Changes reported by chrome.storage.onChanged for the sync area
+ * @returns True if another profile became active
+ */
+export function hasActiveProfileChanged(changes: { [key: string]: chrome.storage.StorageChange }): boolean {
+    const change = changes[ACTIVE_PROFILE_KEY];
+    return change !== undefined && (change.oldValue ?? DEFAULT_PROFILE_ID) !== change.newValue;
+}
+
+/**
+ * Validates the name and switching conditions of a profile
+ * @param profile - Profile to validate
+ * @returns Object containing validation result and error messages
+ */
+export function validateProfile(profile: ConfigProfile): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!profile.name || profile.name.trim() === "") {
+        errors.push('Profile name is required');
+    }
+
+    if (profile.reachable_host && !/^https?:\/\//.test(profile.reachable_host)) {
+        errors.push('Home Assistant URL must start with http:// or https://');
+    }
+
+    for (const time of [profile.time_after, profile.time_before]) {
+        if (time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+            errors.push('Times must use the HH:MM format');
+        }
+    }
+
+    if (profile.auto_switch && !profile.reachable_host && !profile.time_after && !profile.time_before && profile.weekdays.length === 0) {
+        errors.push('Automatic switching needs at least one condition');
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors
+    };
+}
+
+/**
+ * Picks the first profile with automatic switching whose conditions all match
+ * @param profiles - Profiles, in switching order
+ * @param isReachable - Checks if a Home Assistant URL answers
+ * @param now - Current date (default: now)
+ * @returns Promise that resolves to the matching profile, or null if none matches
+ */
+export async function selectProfile(
+    profiles: ConfigProfile[],
+    isReachable: (host: string) => Promise<boolean> = checkHostReachable,
+    now: Date = new Date()
+): Promise<ConfigProfile | null> {
+    for (const profile of profiles) {
+        if (!profile.auto_switch || !validateProfile(profile).isValid) {
+            continue;
+        }
+
+        const conditions = { time_after: profile.time_after, time_before: profile.time_before, weekdays: profile.weekdays, meeting_code_pattern: "" };
+        if (!matchesConditions(conditions, null, now)) {
+            continue;
+        }
+
+        if (profile.reachable_host && !(await isReachable(profile.reachable_host))) {
+            continue;
+        }
+
+        return profile;
+    }
+
+    return null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Request log for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This module keeps the last requests made to Home Assistant targets (REST, WebSocket
+ * and MQTT) in `chrome.storage.local`, so the diagnostics view of the options page can
+ * show what went wrong when the badge shows "!" or updates stay pending. Secrets are
+ * redacted before anything is stored, so the log can be exported for bug reports.
+ *
+ * METHODS:
+ * - redactUrl(): Removes credentials, webhook IDs and secret query parameters from a URL
+ * - redactText(): Removes credentials, webhook IDs, tokens and secret query parameters from a message
+ * - logRequest(): Adds a request to the log, dropping the oldest ones
+ * - getRequestLog(): Gets the logged requests, oldest first
+ * - clearRequestLog(): Removes every logged request
+ * - exportRequestLog(): Builds the JSON bundle attached to bug reports
+ *
+ * INTERFACES:
+ * - RequestLogEntry: Request made to a target
+ */
+
+// Key of the log in chrome.storage.local
+const REQUEST_LOG_KEY = "request_log";
+
+// Number of requests kept in the log
+const REQUEST_LOG_SIZE = 200;
+
+// Query parameters whose values are secrets
+const SECRET_PARAMETER_NAMES = "token|access_token|api_key|apikey|key|password|secret|auth";
+const SECRET_PARAMETERS = new RegExp(`^(${SECRET_PARAMETER_NAMES})$`, "i");
+
+// Log changes run one after another, as requests finish in parallel
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Request made to a target
+ */
+export interface RequestLogEntry {
+    /** When the request was sent (milliseconds since epoch) */
+    timestamp: number;
+    /** ID of the target */
+    targetId: string;
+    /** Name of the target */
+    targetName: string;
+    /** HTTP method, or the WebSocket command or MQTT packet */
+    method: string;
+    /** Requested URL, redacted */
+    url: string;
+    /** HTTP status code, or null without HTTP response */
+    status: number | null;
+    /** Time until the response or failure, in milliseconds */
+    latency: number;
+    /** Attempt number of the update, starting at 1 */
+    attempt: number;
+    /** Error message, redacted, or null if the request succeeded */
+    error: string | null;
+}
+
+/**
+ * Removes credentials, webhook IDs and secret query parameters from a URL
+ * @param url - URL to redact
+ * @returns The redacted URL
+ */
+export function redactUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url.replace(/\/api\/webhook\/[^/?#\s]+/g, "/api/webhook/REDACTED");
+    }
+
+    if (parsed.username !== "" || parsed.password !== "") {
+        parsed.username = "REDACTED";
+        parsed.password = "";
+    }
+
+    // Anyone knowing a webhook ID can trigger it
+    parsed.pathname = parsed.pathname.replace(/\/api\/webhook\/[^/]+/, "/api/webhook/REDACTED");
+
+    parsed.searchParams.forEach((_, name) => {
+        if (SECRET_PARAMETERS.test(name)) {
+            parsed.searchParams.set(name, "REDACTED");
+        }
+    });
+
+    return parsed.toString();
+}
+
+/**
+ * Removes credentials, webhook IDs, bearer tokens and secret query parameters from a
+ * message, e.g. an error quoting the requested URL. Messages are not URLs, so they are
+ * searched rather than parsed.
+ * @param text - Message to redact
+ * @returns The redacted message
+ */
+export function redactText(text: string): string {
+    return text
+        .replace(/\/api\/webhook\/[^/?#\s]+/g, "/api/webhook/REDACTED")
+        .replace(/(Bearer\s+)[^\s"',]+/gi, "$1REDACTED")
+        .replace(/(\/\/)[^/@\s]+@/g, "$1REDACTED@")
+        .replace(new RegExp(`([?&](?:${SECRET_PARAMETER_NAMES})=)[^&#\\s]+`, "gi"), "$1REDACTED");
+}
+
+/**
+ * Reads, changes and writes the log without racing other changes
+ * @param change - Returns the new log
+ */
+function changeLog(change: (log: RequestLogEntry[]) => RequestLogEntry[]): Promise<void> {
+    const next = pendingChange.then(async () => {
+        const log = change(await getRequestLog());
+        await chrome.storage.local.set({ [REQUEST_LOG_KEY]: log });
+    });
+
+    // A failed change must not block the following ones
+    pendingChange = next.catch(() => undefined);
+    return next;
+}
+
+/**
+ * Adds a request to the log, dropping the oldest ones
+ * @param entry - Request to add; its URL and error are redacted before being stored
+ * @param secrets - Values to remove from the error message, e.g. the token of the target
+ */
+export function logRequest(entry: RequestLogEntry, secrets: string[] = []): Promise<void> {
+    let error = entry.error;
+    if (error !== null) {
+        for (const secret of secrets.filter((value) => value.length > 0)) {
+            error = error.split(secret).join("REDACTED");
+        }
+        error = redactText(error);
+    }
+
+    return changeLog((log) => [...log, { ...entry, url: redactUrl(entry.url), error }].slice(-REQUEST_LOG_SIZE));
+}
+
+/**
+ * Gets the logged requests
+ * @returns Promise that resolves to the requests, oldest first
+ */
+export async function getRequestLog(): Promise<RequestLogEntry[]> {
+    const stored = await chrome.storage.local.get(REQUEST_LOG_KEY);
+    return stored[REQUEST_LOG_KEY] ?? [];
+}
+
+/**
+ * Removes every logged request
+ */
+export async function clearRequestLog() {
+    await changeLog(() => []);
+}
+
+/**
+ * Builds the JSON bundle attached to bug reports
+ * @returns Promise that resolves to the bundle, with the extension version and browser
+ */
+export async function exportRequestLog(): Promise<string> {
+    return JSON.stringify({
+        exported_at: new Date().toISOString(),
+        extension_version: chrome.runtime.getManifest().version,
+        user_agent: navigator.userAgent,
+        requests: await getRequestLog(),
+    }, null, 2);
+}
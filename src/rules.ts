@@ -0,0 +1,329 @@
+/**
+ * Rules engine for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * This module lets users attach their own Home Assistant actions to meeting events,
+ * e.g. "when a meeting starts: turn on light.on_air, set input_select.office_mode to
+ * Busy and run script.silence_doorbell; when it ends: revert". Each rule has a trigger,
+ * optional conditions and an ordered list of service calls, run after the regular
+ * meeting entity update.
+ *
+ * TRIGGERS:
+ * - meeting_started / meeting_ended: Joining or leaving a call
+ * - presenting_started / presenting_stopped: Starting or stopping screen sharing
+ * - microphone_muted / microphone_unmuted: Muting or unmuting during a call
+ *
+ * CONDITIONS (all optional, all must match):
+ * - Time of day window (local time, may wrap around midnight)
+ * - Weekdays
+ * - Meeting code pattern, with "*" matching any characters
+ *
+ * METHODS:
+ * - createRule(): Creates a new rule with default values
+ * - createRuleAction(): Creates a new service call action
+ * - validateRule(): Validates a single rule
+ * - getTriggers(): Lists the triggers fired by a meeting status change
+ * - matchesConditions(): Checks whether the conditions of a rule match
+ * - getTriggeredRules(): Lists the enabled rules fired by a meeting status change
+ * - runRules(): Runs the actions of the triggered rules on a target
+ *
+ * TYPES:
+ * - RuleTrigger: Meeting event starting a rule
+ * - RuleConditions: Conditions restricting when a rule runs
+ * - RuleAction: Home Assistant service call run by a rule
+ * - Rule: Trigger, conditions and actions
+ */
+
+import { Config, Target } from "./config";
+import { callServices, ServiceCall } from "./hass";
+import { MeetingStatus, isInCall } from "./meet";
+
+/**
+ * Meeting events that can start a rule
+ */
+export type RuleTrigger =
+    | "meeting_started"
+    | "meeting_ended"
+    | "presenting_started"
+    | "presenting_stopped"
+    | "microphone_muted"
+    | "microphone_unmuted";
+
+/**
+ * All rule triggers, in display order
+ */
+export const RULE_TRIGGERS: RuleTrigger[] = [
+    "meeting_started",
+    "meeting_ended",
+    "presenting_started",
+    "presenting_stopped",
+    "microphone_muted",
+    "microphone_unmuted",
+];
+
+/**
+ * Conditions restricting when a rule runs; empty values always match
+ */
+export interface RuleConditions {
+    /** Start of the time of day window, "HH:MM" in local time */
+    time_after: string;
+    /** End of the time of day window, "HH:MM" in local time */
+    time_before: string;
+    /** Days of the week the rule runs on, 0 (Sunday) to 6 (Saturday) */
+    weekdays: number[];
+    /** Meeting code pattern, e.g. "abc-*" */
+    meeting_code_pattern: string;
+}
+
+/**
+ * Home Assistant service call run by a rule
+ */
+export interface RuleAction {
+    /** Service to call, e.g. "light.turn_on" */
+    service: string;
+    /** Service data as a JSON object, e.g. {"entity_id": "light.on_air"} */
+    data: string;
+}
+
+/**
+ * Rule running Home Assistant service calls on a meeting event
+ */
+export interface Rule {
+    /** Unique identifier of the rule */
+    id: string;
+    /** Name shown in the options page */
+    name: string;
+    /** Whether the rule runs */
+    enabled: boolean;
+    /** Meeting event starting the rule */
+    trigger: RuleTrigger;
+    /** Conditions restricting when the rule runs */
+    conditions: RuleConditions;
+    /** Service calls to run, in order */
+    actions: RuleAction[];
+    /** ID of the target to run the actions on, or "" for every enabled target using the API or event method */
+    target_id: string;
+}
+
+/**
+ * Creates a new service call action
+ * @returns The new action
+ */
+export function createRuleAction(): RuleAction {
+    return { service: "", data: "{}" };
+}
+
+/**
+ * Creates a new rule with default values
+ * @param name - Name of the rule
+ * @returns The new rule
+ */
+export function createRule(name: string): Rule {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 8),
+        name,
+        enabled: true,
+        trigger: "meeting_started",
+        conditions: {
+            time_after: "",
+            time_before: "",
+            weekdays: [],
+            meeting_code_pattern: "",
+        },
+        actions: [createRuleAction()],
+        target_id: "",
+    };
+}
+
+/**
+ * Parses the service data of an action
+ * @param data - Service data as JSON text
+ * @returns The service data, or null if it is not a JSON object
+ */
+function parseActionData(data: string): Record<string, unknown> | null {
+    try {
+        const parsed = JSON.parse(data.trim() || "{}");
+        return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Validates a single rule
+ * @param rule - Rule to validate
+ * @param targets - Configured targets
+ * @returns Object containing validation result and error messages
+ */
+export function validateRule(rule: Rule, targets: Target[]): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!rule.name || rule.name.trim() === "") {
+        errors.push('Rule name is required');
+    }
+
+    if (!RULE_TRIGGERS.includes(rule.trigger)) {
+        errors.push(`Unknown trigger "${rule.trigger}"`);
+    }
+
+    for (const time of [rule.conditions.time_after, rule.conditions.time_before]) {
+        if (time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+            errors.push('Times must use the HH:MM format');
+        }
+    }
+
+    const target = targets.find((item) => item.id === rule.target_id);
+    if (rule.target_id && target === undefined) {
+        errors.push('The selected target no longer exists');
+    } else if (target !== undefined && target.method !== "api" && target.method !== "event") {
+        errors.push('Actions can only run on API or event targets');
+    }
+
+    if (rule.actions.length === 0) {
+        errors.push('At least one action is required');
+    }
+
+    rule.actions.forEach((action, index) => {
+        if (!/^[a-z0-9_]+\.[a-z0-9_]+$/.test(action.service.trim())) {
+            errors.push(`Action ${index + 1}: service must look like domain.service`);
+        }
+        if (parseActionData(action.data) === null) {
+            errors.push(`Action ${index + 1}: service data must be a JSON object`);
+        }
+    });
+
+    return {
+        isValid: errors.length === 0,
+        errors
+    };
+}
+
+/**
+ * Lists the triggers fired by a meeting status change
+ * @param status - Current meeting status
+ * @param previous - Previously published meeting status, or null on startup
+ * @returns The fired triggers
+ */
+export function getTriggers(status: MeetingStatus, previous: MeetingStatus | null): RuleTrigger[] {
+    const triggers: RuleTrigger[] = [];
+    const isInMeeting = isInCall(status.state);
+    const wasInMeeting = previous !== null && isInCall(previous.state);
+
+    if (isInMeeting && !wasInMeeting) {
+        triggers.push("meeting_started");
+    } else if (!isInMeeting && wasInMeeting) {
+        triggers.push("meeting_ended");
+    }
+
+    const wasPresenting = previous?.media.presenting ?? false;
+    if (status.media.presenting && !wasPresenting) {
+        triggers.push("presenting_started");
+    } else if (!status.media.presenting && wasPresenting) {
+        triggers.push("presenting_stopped");
+    }
+
+    // Muting only makes sense during a call, not when joining or leaving it
+    if (isInMeeting && wasInMeeting && previous !== null) {
+        if (previous.media.microphone && !status.media.microphone) {
+            triggers.push("microphone_muted");
+        } else if (!previous.media.microphone && status.media.microphone) {
+            triggers.push("microphone_unmuted");
+        }
+    }
+
+    return triggers;
+}
+
+/**
+ * Checks whether a meeting code matches a pattern where "*" matches any characters
+ * @param code - Meeting code, e.g. "abc-defg-hij"
+ * @param pattern - Pattern, e.g. "abc-*"
+ * @returns True if the code matches
+ */
+function matchesPattern(code: string, pattern: string): boolean {
+    const escaped = pattern.trim().split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+    return new RegExp(`^${escaped.join(".*")}$`, "i").test(code);
+}
+
+/**
+ * Checks whether the conditions of a rule match
+ * @param conditions - Conditions of the rule
+ * @param meetingCode - Code of the meeting that fired the rule, or null if unknown
+ * @param now - Current date
+ * @returns True if every condition matches
+ */
+export function matchesConditions(conditions: RuleConditions, meetingCode: string | null, now: Date): boolean {
+    if (conditions.weekdays.length > 0 && !conditions.weekdays.includes(now.getDay())) {
+        return false;
+    }
+
+    const time = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+    const { time_after: after, time_before: before } = conditions;
+    if (after && before) {
+        // A window such as 22:00-06:00 wraps around midnight
+        const inWindow = after <= before ? time >= after && time < before : time >= after || time < before;
+        if (!inWindow) {
+            return false;
+        }
+    } else if ((after && time < after) || (before && time >= before)) {
+        return false;
+    }
+
+    if (conditions.meeting_code_pattern.trim() !== "") {
+        if (meetingCode === null || !matchesPattern(meetingCode, conditions.meeting_code_pattern)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Lists the enabled rules fired by a meeting status change
+ * @param rules - Configured rules
+ * @param status - Current meeting status
+ * @param previous - Previously published meeting status, or null on startup
+ * @param now - Current date (default: now)
+ * @returns The rules to run, in configuration order
+ */
+export function getTriggeredRules(rules: Rule[], status: MeetingStatus, previous: MeetingStatus | null, now: Date = new Date()): Rule[] {
+    const triggers = getTriggers(status, previous);
+    if (triggers.length === 0) {
+        return [];
+    }
+
+    // The meeting code of an ended call is only known from the previous status
+    const meetingCode = status.meetingCode ?? previous?.meetingCode ?? null;
+
+    return rules.filter((rule) =>
+        rule.enabled && triggers.includes(rule.trigger) && matchesConditions(rule.conditions, meetingCode, now)
+    );
+}
+
+/**
+ * Runs the actions of the rules fired by a meeting status change on a target
+ * @param config - Configuration object containing the rules
+ * @param target - Target to run the actions on
+ * @param status - Current meeting status
+ * @param previous - Previously published meeting status, or null on startup
+ * @returns Promise that resolves to true if successful (or nothing to run), false otherwise
+ */
+export async function runRules(config: Config, target: Target, status: MeetingStatus, previous: MeetingStatus | null): Promise<boolean> {
+    // Service calls need the Home Assistant URL and token, which webhook and MQTT targets do not have
+    if (target.method !== "api" && target.method !== "event") {
+        return true;
+    }
+
+    const calls: ServiceCall[] = getTriggeredRules(config.rules, status, previous)
+        .filter((rule) => rule.target_id === "" || rule.target_id === target.id)
+        .flatMap((rule) => rule.actions.map((action) => ({
+            service: action.service.trim(),
+            data: parseActionData(action.data) ?? {},
+        })));
+
+    if (calls.length === 0) {
+        return true;
+    }
+
+    return await callServices(target, calls);
+}
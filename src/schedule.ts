@@ -0,0 +1,140 @@
+/**
+ * Working-hours schedule for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * Some meetings should not reach Home Assistant, e.g. a late-evening call taken from the
+ * living room must not turn on the office light. The schedule lists, for each day of the
+ * week, the time windows during which meeting updates are sent. Outside of them, meetings
+ * can still be tracked locally (badge, history).
+ *
+ * Times are wall-clock times in the timezone of the schedule, or of the computer when none
+ * is set, so the schedule follows daylight saving time. A window ends before its end time,
+ * and "24:00" ends it at midnight; windows crossing midnight are split over two days.
+ *
+ * A meeting already sent to Home Assistant when its window ends keeps being sent until it
+ * is over, so the entities are turned off properly.
+ *
+ * METHODS:
+ * - createSchedule(): Creates the default schedule (weekdays 09:00-18:00, disabled)
+ * - validateSchedule(): Validates a schedule
+ * - getZonedDate(): Gets the wall-clock date in a timezone
+ * - isWithinSchedule(): Checks if updates may be sent at a given time
+ *
+ * TYPES:
+ * - ScheduleWindow: Time window of a day during which updates are sent
+ * - Schedule: Weekly schedule gating the updates
+ */
+
+/**
+ * Time window of a day during which updates are sent
+ */
+export interface ScheduleWindow {
+    /** Start of the window, "HH:MM" */
+    start: string;
+    /** End of the window, "HH:MM" or "24:00" */
+    end: string;
+}
+
+/**
+ * Weekly schedule gating the updates sent to Home Assistant
+ */
+export interface Schedule {
+    /** Whether updates are only sent within the schedule */
+    enabled: boolean;
+    /** IANA timezone of the times, e.g. "Europe/Paris", or "" for the timezone of the computer */
+    timezone: string;
+    /** Time windows of each day, from 0 (Sunday) to 6 (Saturday); days without windows send nothing */
+    days: ScheduleWindow[][];
+    /** Whether meetings outside the schedule are still recorded in the local history */
+    track_locally: boolean;
+}
+
+/**
+ * Creates the default schedule: weekdays from 09:00 to 18:00, disabled
+ * @returns The new schedule
+ */
+export function createSchedule(): Schedule {
+    const workday = (): ScheduleWindow[] => [{ start: "09:00", end: "18:00" }];
+    return {
+        enabled: false,
+        timezone: "",
+        days: [[], workday(), workday(), workday(), workday(), workday(), []],
+        track_locally: true,
+    };
+}
+
+/**
+ * Checks whether a timezone is known to the browser
+ * @param timezone - IANA timezone, e.g. "Europe/Paris"
+ * @returns True if the timezone can be used
+ */
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Date().toLocaleString("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Validates a schedule
+ * @param schedule - Schedule to validate
+ * @returns Object containing validation result and error messages
+ */
+export function validateSchedule(schedule: Schedule): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (schedule.timezone.trim() !== "" && !isValidTimezone(schedule.timezone.trim())) {
+        errors.push(`Unknown timezone "${schedule.timezone}"`);
+    }
+
+    if (schedule.days.length !== 7) {
+        errors.push('The schedule needs one list of time windows per weekday');
+    }
+
+    const windows = schedule.days.reduce((all, day) => all.concat(day), [] as ScheduleWindow[]);
+    if (windows.some((window) => !/^([01]\d|2[0-3]):[0-5]\d$/.test(window.start) || !/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/.test(window.end))) {
+        errors.push('Schedule times must use the HH:MM format');
+    } else if (windows.some((window) => window.start >= window.end)) {
+        errors.push('Schedule windows must end after they start');
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors
+    };
+}
+
+/**
+ * Gets the wall-clock date in a timezone
+ *
+ * The returned date has the weekday, hours and minutes of the timezone as its local
+ * fields; it must not be compared with real timestamps.
+ *
+ * @param now - Date to convert
+ * @param timezone - IANA timezone, or "" for the timezone of the computer
+ * @returns The wall-clock date
+ */
+export function getZonedDate(now: Date, timezone: string): Date {
+    if (timezone.trim() === "") {
+        return now;
+    }
+    return new Date(now.toLocaleString("en-US", { timeZone: timezone.trim() }));
+}
+
+/**
+ * Checks if updates may be sent at a given time
+ * @param schedule - Configured schedule
+ * @param now - Current date (default: now)
+ * @returns True if the schedule is disabled or the time is within one of its windows
+ */
+export function isWithinSchedule(schedule: Schedule, now: Date = new Date()): boolean {
+    if (!schedule.enabled) {
+        return true;
+    }
+
+    const zoned = getZonedDate(now, schedule.timezone);
+    const time = `${String(zoned.getHours()).padStart(2, "0")}:${String(zoned.getMinutes()).padStart(2, "0")}`;
+    return (schedule.days[zoned.getDay()] ?? []).some((window) => time >= window.start && time < window.end);
+}
@@ -0,0 +1,320 @@
+import { createWebSocketClient, getWebSocketUrl, WebSocketClientOptions } from "./websocket";
+
+/**
+ * Stand-in for the socket of a Home Assistant server, driven by the tests
+ */
+class FakeSocket {
+    sent: any[] = [];
+    closed = false;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    send(data: string) {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+        if (!this.closed) {
+            this.closed = true;
+            this.onclose?.();
+        }
+    }
+
+    receive(message: Record<string, unknown>) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+
+    lastSent(): any {
+        return this.sent[this.sent.length - 1];
+    }
+}
+
+// Creates a client whose sockets are recorded, oldest first
+const setup = (options: Partial<WebSocketClientOptions> = {}) => {
+    const sockets: FakeSocket[] = [];
+    const client = createWebSocketClient({
+        url: "ws://homeassistant.local:8123/api/websocket",
+        token: "secret",
+        createSocket: () => {
+            const socket = new FakeSocket();
+            sockets.push(socket);
+            return socket as unknown as WebSocket;
+        },
+        ...options,
+    });
+    return { client, sockets };
+};
+
+// Completes the authentication handshake on a socket
+const authenticate = (socket: FakeSocket) => {
+    socket.receive({ type: "auth_required" });
+    socket.receive({ type: "auth_ok" });
+};
+
+// Lets the pending promise callbacks run
+const flush = async () => {
+    for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+    }
+};
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe("getWebSocketUrl", () => {
+    it("turns the base URL into the WebSocket API URL", () => {
+        expect(getWebSocketUrl("http://homeassistant.local:8123/")).toBe("ws://homeassistant.local:8123/api/websocket");
+        expect(getWebSocketUrl("https://ha.example.com")).toBe("wss://ha.example.com/api/websocket");
+    });
+});
+
+describe("authentication", () => {
+    it("sends the token when asked and resolves once authenticated", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+
+        sockets[0].receive({ type: "auth_required" });
+        expect(sockets[0].lastSent()).toEqual({ type: "auth", access_token: "secret" });
+        expect(client.isConnected()).toBe(false);
+
+        sockets[0].receive({ type: "auth_ok" });
+        await expect(connected).resolves.toBeUndefined();
+        expect(client.isConnected()).toBe(true);
+    });
+
+    it("shares the handshake between callers", async () => {
+        const { client, sockets } = setup();
+        const first = client.connect();
+        const second = client.connect();
+
+        authenticate(sockets[0]);
+        await Promise.all([first, second]);
+        expect(sockets).toHaveLength(1);
+    });
+
+    it("rejects an invalid token and stops reconnecting", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+
+        sockets[0].receive({ type: "auth_required" });
+        sockets[0].receive({ type: "auth_invalid", message: "Invalid access token" });
+
+        await expect(connected).rejects.toThrow("Invalid auth token: Invalid access token");
+        expect(sockets[0].closed).toBe(true);
+
+        jest.advanceTimersByTime(120000);
+        expect(sockets).toHaveLength(1);
+    });
+
+    it("rejects when the connection closes during the handshake", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+
+        sockets[0].close();
+        await expect(connected).rejects.toThrow("Could not connect to Home Assistant WebSocket");
+    });
+
+    it("times out a handshake that never completes and closes the socket", async () => {
+        const { client, sockets } = setup({ connectTimeout: 5000 });
+        const connected = client.connect();
+
+        sockets[0].receive({ type: "auth_required" });
+        jest.advanceTimersByTime(5000);
+
+        await expect(connected).rejects.toThrow("Timed out connecting to Home Assistant WebSocket");
+        expect(sockets[0].closed).toBe(true);
+
+        // Later callers start a new handshake instead of waiting for the old one
+        const retried = client.connect();
+        expect(sockets).toHaveLength(2);
+        authenticate(sockets[1]);
+        await expect(retried).resolves.toBeUndefined();
+    });
+});
+
+describe("commands", () => {
+    it("gives each command a new ID and matches the results by ID", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        const states = client.getStates();
+        const called = client.callService("light", "turn_on", { entity_id: "light.on_air" });
+
+        const [getStates, callService] = sockets[0].sent.slice(-2);
+        expect(getStates).toEqual({ type: "get_states", id: 1 });
+        expect(callService).toEqual({
+            type: "call_service",
+            domain: "light",
+            service: "turn_on",
+            service_data: { entity_id: "light.on_air" },
+            id: 2,
+        });
+
+        // Results may come back in any order
+        sockets[0].receive({ type: "result", id: 2, success: true, result: { context: {} } });
+        sockets[0].receive({ type: "result", id: 1, success: true, result: [{ entity_id: "light.on_air", state: "on" }] });
+
+        await expect(called).resolves.toEqual({ context: {} });
+        await expect(states).resolves.toEqual([{ entity_id: "light.on_air", state: "on" }]);
+    });
+
+    it("rejects failed commands with the error returned by Home Assistant", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        const fired = client.fireEvent("google_meet_started", { meeting_code: "abc-defg-hij" });
+        expect(sockets[0].lastSent()).toMatchObject({ type: "fire_event", event_type: "google_meet_started", id: 1 });
+
+        sockets[0].receive({ type: "result", id: 1, success: false, error: { code: "unauthorized", message: "Unauthorized" } });
+        await expect(fired).rejects.toThrow("unauthorized: Unauthorized");
+    });
+
+    it("rejects commands sent before connecting", async () => {
+        const { client } = setup();
+        await expect(client.getStates()).rejects.toThrow("Not connected to Home Assistant");
+    });
+
+    it("rejects the pending commands when the connection is lost", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        const states = client.getStates();
+        sockets[0].close();
+
+        await expect(states).rejects.toThrow("Connection to Home Assistant lost");
+        expect(client.isConnected()).toBe(false);
+    });
+});
+
+describe("heartbeat", () => {
+    it("pings periodically and keeps the connection when the pong comes back", async () => {
+        const { client, sockets } = setup({ pingInterval: 30000, pongTimeout: 10000 });
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        jest.advanceTimersByTime(30000);
+        const ping = sockets[0].lastSent();
+        expect(ping).toEqual({ type: "ping", id: 1 });
+
+        sockets[0].receive({ type: "pong", id: ping.id });
+        await flush();
+        jest.advanceTimersByTime(10000);
+
+        expect(sockets[0].closed).toBe(false);
+        expect(client.isConnected()).toBe(true);
+    });
+
+    it("drops the connection when no pong comes back", async () => {
+        const { client, sockets } = setup({ pingInterval: 30000, pongTimeout: 10000 });
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        jest.advanceTimersByTime(30000);
+        jest.advanceTimersByTime(10000);
+
+        expect(sockets[0].closed).toBe(true);
+        expect(client.isConnected()).toBe(false);
+    });
+});
+
+describe("reconnection", () => {
+    it("reconnects with an exponential backoff", async () => {
+        const { client, sockets } = setup({ reconnectDelay: 1000, maxReconnectDelay: 60000 });
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        sockets[0].close();
+        jest.advanceTimersByTime(999);
+        expect(sockets).toHaveLength(1);
+        jest.advanceTimersByTime(1);
+        expect(sockets).toHaveLength(2);
+
+        // The next failed attempt waits twice as long
+        sockets[1].close();
+        await flush();
+        jest.advanceTimersByTime(1999);
+        expect(sockets).toHaveLength(2);
+        jest.advanceTimersByTime(1);
+        expect(sockets).toHaveLength(3);
+
+        // A successful connection resets the delay
+        authenticate(sockets[2]);
+        await flush();
+        sockets[2].close();
+        jest.advanceTimersByTime(1000);
+        expect(sockets).toHaveLength(4);
+    });
+
+    it("caps the backoff at the maximum delay", async () => {
+        const { client, sockets } = setup({ reconnectDelay: 1000, maxReconnectDelay: 3000 });
+        client.connect().catch(() => undefined);
+
+        for (const delay of [1000, 2000, 3000, 3000]) {
+            sockets[sockets.length - 1].close();
+            await flush();
+            const count = sockets.length;
+            jest.advanceTimersByTime(delay - 1);
+            expect(sockets).toHaveLength(count);
+            jest.advanceTimersByTime(1);
+            expect(sockets).toHaveLength(count + 1);
+        }
+    });
+
+    it("does not reconnect after being closed", async () => {
+        const { client, sockets } = setup();
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        client.close();
+        jest.advanceTimersByTime(120000);
+
+        expect(sockets[0].closed).toBe(true);
+        expect(sockets).toHaveLength(1);
+    });
+
+    it("restores the event subscriptions under new IDs", async () => {
+        const { client, sockets } = setup({ reconnectDelay: 1000 });
+        const connected = client.connect();
+        authenticate(sockets[0]);
+        await connected;
+
+        const callback = jest.fn();
+        const subscribed = client.subscribeEvents(callback, "state_changed");
+        expect(sockets[0].lastSent()).toEqual({ type: "subscribe_events", event_type: "state_changed", id: 1 });
+        sockets[0].receive({ type: "result", id: 1, success: true, result: null });
+        await subscribed;
+
+        sockets[0].close();
+        jest.advanceTimersByTime(1000);
+        authenticate(sockets[1]);
+
+        const resubscription = sockets[1].lastSent();
+        expect(resubscription).toEqual({ type: "subscribe_events", event_type: "state_changed", id: 2 });
+        sockets[1].receive({ type: "result", id: 2, success: true, result: null });
+
+        // Events are delivered under the new subscription ID only
+        sockets[1].receive({ type: "event", id: 1, event: { event_type: "state_changed", data: {} } });
+        expect(callback).not.toHaveBeenCalled();
+        sockets[1].receive({ type: "event", id: 2, event: { event_type: "state_changed", data: { entity_id: "light.on_air" } } });
+        expect(callback).toHaveBeenCalledWith({ event_type: "state_changed", data: { entity_id: "light.on_air" } });
+    });
+});
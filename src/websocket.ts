@@ -0,0 +1,414 @@
+/**
+ * Home Assistant WebSocket API client for the Google Meet extension
+ *
+ * GOAL:
+ * This module provides a persistent connection to Home Assistant's WebSocket API
+ * (`/api/websocket`). The background worker keeps it open while a meeting is active so
+ * updates are sent over an already authenticated connection instead of a cold REST
+ * request, and so the extension can listen to Home Assistant events.
+ *
+ * FEATURES:
+ * - Authentication handshake (auth_required → auth → auth_ok / auth_invalid), with a timeout
+ * - Message ID tracking with one pending promise per command
+ * - call_service, get_states, fire_event and subscribe_events commands
+ * - Ping/pong heartbeat that detects dead connections
+ * - Automatic reconnection with exponential backoff, restoring event subscriptions
+ * - Injectable socket factory, so the client can run against a local stand-in server
+ *
+ * METHODS:
+ * - getWebSocketUrl(): Builds the WebSocket API URL from a Home Assistant base URL
+ * - createWebSocketClient(): Creates a client for the WebSocket API
+ *
+ * INTERFACES:
+ * - WebSocketClientOptions: Options used to create a client
+ * - HassWebSocketClient: Client returned by createWebSocketClient()
+ * - HassState: Entity state returned by get_states
+ * - HassEvent: Event received through subscribe_events
+ *
+ * ERROR HANDLING:
+ * - Invalid tokens reject connect() and stop reconnection
+ * - A handshake that does not complete in time closes the socket and rejects connect()
+ * - Failed commands reject with the code and message returned by Home Assistant
+ * - Pending commands are rejected when the connection is lost
+ */
+
+/**
+ * Entity state as returned by Home Assistant
+ */
+export interface HassState {
+    entity_id: string;
+    state: string;
+    attributes: Record<string, unknown>;
+    last_changed: string;
+    last_updated: string;
+}
+
+/**
+ * Event as delivered by Home Assistant
+ */
+export interface HassEvent {
+    event_type: string;
+    data: Record<string, unknown>;
+    origin: string;
+    time_fired: string;
+}
+
+/**
+ * Options used to create a WebSocket API client
+ */
+export interface WebSocketClientOptions {
+    /** WebSocket API URL, e.g. ws://homeassistant.local:8123/api/websocket */
+    url: string;
+    /** Long-lived access token */
+    token: string;
+    /** Creates the underlying socket (default: the global WebSocket constructor) */
+    createSocket?: (url: string) => WebSocket;
+    /** Time to wait for the authentication handshake in milliseconds (default: 10000) */
+    connectTimeout?: number;
+    /** Interval between heartbeat pings in milliseconds (default: 30000) */
+    pingInterval?: number;
+    /** Time to wait for a pong before considering the connection dead (default: 10000) */
+    pongTimeout?: number;
+    /** Base reconnection delay in milliseconds (default: 1000) */
+    reconnectDelay?: number;
+    /** Maximum reconnection delay in milliseconds (default: 60000) */
+    maxReconnectDelay?: number;
+}
+
+/**
+ * Client for the Home Assistant WebSocket API
+ */
+export interface HassWebSocketClient {
+    /** Opens the connection; resolves once authenticated */
+    connect(): Promise<void>;
+    /** Closes the connection and stops reconnecting */
+    close(): void;
+    /** Whether the connection is open and authenticated */
+    isConnected(): boolean;
+    /** Sends a raw command and resolves with its result */
+    sendCommand<T = unknown>(command: Record<string, unknown>): Promise<T>;
+    /** Calls a Home Assistant service */
+    callService(domain: string, service: string, serviceData?: Record<string, unknown>): Promise<unknown>;
+    /** Gets the state of all entities */
+    getStates(): Promise<HassState[]>;
+    /** Fires a custom event */
+    fireEvent(eventType: string, eventData?: Record<string, unknown>): Promise<unknown>;
+    /** Subscribes to events; resolves with a function that unsubscribes */
+    subscribeEvents(callback: (event: HassEvent) => void, eventType?: string): Promise<() => Promise<void>>;
+}
+
+/**
+ * Builds the WebSocket API URL from a Home Assistant base URL
+ * @param host - Home Assistant base URL, e.g. https://ha.example.com
+ * @returns The WebSocket API URL, e.g. wss://ha.example.com/api/websocket
+ */
+export function getWebSocketUrl(host: string): string {
+    return host.replace(/^http/, "ws").replace(/\/+$/, "") + "/api/websocket";
+}
+
+/**
+ * Creates a client for the Home Assistant WebSocket API
+ * @param options - Connection options
+ * @returns The client (not connected yet)
+ */
+export function createWebSocketClient(options: WebSocketClientOptions): HassWebSocketClient {
+    const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+    const connectTimeout = options.connectTimeout ?? 10000;
+    const pingInterval = options.pingInterval ?? 30000;
+    const pongTimeout = options.pongTimeout ?? 10000;
+    const reconnectDelay = options.reconnectDelay ?? 1000;
+    const maxReconnectDelay = options.maxReconnectDelay ?? 60000;
+
+    let socket: WebSocket | null = null;
+    let authenticated = false;
+    let closedByUser = false;
+    let nextId = 1;
+    let reconnectAttempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let pongTimer: ReturnType<typeof setTimeout> | null = null;
+    let connecting: Promise<void> | null = null;
+
+    // Commands waiting for their result, keyed by message ID
+    const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+
+    // Active event subscriptions, keyed by the ID of their subscribe_events command
+    const subscriptions = new Map<number, { callback: (event: HassEvent) => void; eventType?: string }>();
+
+    /**
+     * Stops the heartbeat timers
+     */
+    function stopHeartbeat() {
+        if (pingTimer) {
+            clearInterval(pingTimer);
+            pingTimer = null;
+        }
+        if (pongTimer) {
+            clearTimeout(pongTimer);
+            pongTimer = null;
+        }
+    }
+
+    /**
+     * Sends pings periodically and drops the connection if no pong comes back
+     */
+    function startHeartbeat() {
+        stopHeartbeat();
+
+        pingTimer = setInterval(() => {
+            if (pongTimer) {
+                return;
+            }
+
+            pongTimer = setTimeout(() => {
+                console.error("Home Assistant WebSocket did not answer ping, reconnecting");
+                socket?.close();
+            }, pongTimeout);
+
+            sendCommand({ type: "ping" })
+                .then(() => {
+                    if (pongTimer) {
+                        clearTimeout(pongTimer);
+                        pongTimer = null;
+                    }
+                })
+                .catch(() => {
+                    // Connection loss is handled by the close handler
+                });
+        }, pingInterval);
+    }
+
+    /**
+     * Schedules a reconnection with exponential backoff: 1s, 2s, 4s... up to the maximum
+     */
+    function scheduleReconnect() {
+        if (closedByUser || reconnectTimer) {
+            return;
+        }
+
+        const delay = Math.min(reconnectDelay * Math.pow(2, reconnectAttempt), maxReconnectDelay);
+        reconnectAttempt++;
+
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect().catch((error) => {
+                console.error("Home Assistant WebSocket reconnection failed:", error);
+            });
+        }, delay);
+    }
+
+    /**
+     * Restores the event subscriptions of a previous connection under new message IDs
+     */
+    async function resubscribe() {
+        const previous = Array.from(subscriptions.entries());
+        subscriptions.clear();
+
+        for (const [, subscription] of previous) {
+            const id = nextId++;
+            subscriptions.set(id, subscription);
+            await send(id, {
+                type: "subscribe_events",
+                ...(subscription.eventType && { event_type: subscription.eventType }),
+            });
+        }
+    }
+
+    /**
+     * Sends a command with the given message ID and waits for its result
+     */
+    function send<T>(id: number, command: Record<string, unknown>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (!socket || !authenticated) {
+                reject(new Error("Not connected to Home Assistant"));
+                return;
+            }
+
+            pending.set(id, { resolve, reject });
+            socket.send(JSON.stringify({ ...command, id }));
+        });
+    }
+
+    /**
+     * Sends a command with a new message ID and waits for its result
+     */
+    function sendCommand<T = unknown>(command: Record<string, unknown>): Promise<T> {
+        return send<T>(nextId++, command);
+    }
+
+    /**
+     * Handles a message received from Home Assistant
+     */
+    function handleMessage(message: any, onAuthenticated: () => void, onAuthFailed: (error: Error) => void) {
+        switch (message.type) {
+            case "auth_required":
+                socket?.send(JSON.stringify({ type: "auth", access_token: options.token }));
+                break;
+            case "auth_ok":
+                authenticated = true;
+                reconnectAttempt = 0;
+                onAuthenticated();
+                break;
+            case "auth_invalid":
+                onAuthFailed(new Error("Invalid auth token: " + (message.message ?? "authentication failed")));
+                break;
+            case "result":
+            case "pong": {
+                const request = pending.get(message.id);
+                if (!request) {
+                    break;
+                }
+                pending.delete(message.id);
+
+                if (message.type === "pong" || message.success) {
+                    request.resolve(message.result ?? null);
+                } else {
+                    const error = message.error ?? {};
+                    request.reject(new Error(`${error.code ?? "unknown_error"}: ${error.message ?? "Command failed"}`));
+                }
+                break;
+            }
+            case "event":
+                subscriptions.get(message.id)?.callback(message.event);
+                break;
+        }
+    }
+
+    /**
+     * Opens the connection and authenticates
+     */
+    function connect(): Promise<void> {
+        if (authenticated) {
+            return Promise.resolve();
+        }
+        if (connecting) {
+            return connecting;
+        }
+
+        closedByUser = false;
+
+        connecting = new Promise<void>((resolve, reject) => {
+            let settled = false;
+            const current = createSocket(options.url);
+            socket = current;
+
+            // A server that accepts the socket but never authenticates must not keep later callers waiting
+            const handshakeTimer = setTimeout(() => {
+                if (!settled) {
+                    settled = true;
+                    connecting = null;
+                    reject(new Error("Timed out connecting to Home Assistant WebSocket"));
+                    current.close();
+                }
+            }, connectTimeout);
+
+            current.onmessage = (event) => {
+                let message: any;
+                try {
+                    message = JSON.parse(event.data);
+                } catch (error) {
+                    console.error("Invalid message from Home Assistant WebSocket:", error);
+                    return;
+                }
+
+                handleMessage(
+                    message,
+                    () => {
+                        settled = true;
+                        connecting = null;
+                        clearTimeout(handshakeTimer);
+                        startHeartbeat();
+                        resubscribe().catch((error) => {
+                            console.error("Failed to restore Home Assistant event subscriptions:", error);
+                        });
+                        resolve();
+                    },
+                    (error) => {
+                        // A wrong token will not fix itself, so stop reconnecting
+                        settled = true;
+                        connecting = null;
+                        clearTimeout(handshakeTimer);
+                        closedByUser = true;
+                        current.close();
+                        reject(error);
+                    }
+                );
+            };
+
+            current.onclose = () => {
+                if (socket === current) {
+                    socket = null;
+                }
+                authenticated = false;
+                stopHeartbeat();
+
+                pending.forEach((request) => request.reject(new Error("Connection to Home Assistant lost")));
+                pending.clear();
+
+                if (!settled) {
+                    settled = true;
+                    connecting = null;
+                    clearTimeout(handshakeTimer);
+                    reject(new Error("Could not connect to Home Assistant WebSocket"));
+                }
+
+                scheduleReconnect();
+            };
+
+            current.onerror = () => {
+                // Errors are always followed by a close event, which handles them
+            };
+        });
+
+        return connecting;
+    }
+
+    /**
+     * Closes the connection and stops reconnecting
+     */
+    function close() {
+        closedByUser = true;
+
+        if (reconnectTimer) {
+            clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+        }
+
+        stopHeartbeat();
+        socket?.close();
+    }
+
+    return {
+        connect,
+        close,
+        isConnected: () => authenticated,
+        sendCommand,
+        callService: (domain, service, serviceData = {}) =>
+            sendCommand({ type: "call_service", domain, service, service_data: serviceData }),
+        getStates: () => sendCommand<HassState[]>({ type: "get_states" }),
+        fireEvent: (eventType, eventData = {}) =>
+            sendCommand({ type: "fire_event", event_type: eventType, event_data: eventData }),
+        subscribeEvents: async (callback, eventType) => {
+            const id = nextId++;
+            subscriptions.set(id, { callback, eventType });
+
+            try {
+                await send(id, { type: "subscribe_events", ...(eventType && { event_type: eventType }) });
+            } catch (error) {
+                subscriptions.delete(id);
+                throw error;
+            }
+
+            return async () => {
+                // The subscription may have been re-created under a new ID after a reconnect
+                const entry = Array.from(subscriptions.entries()).find(([, subscription]) => subscription.callback === callback);
+                if (!entry) {
+                    return;
+                }
+
+                subscriptions.delete(entry[0]);
+                await sendCommand({ type: "unsubscribe_events", subscription: entry[0] });
+            };
+        },
+    };
+}
@@ -0,0 +1,74 @@
+/**
+ * Service worker state for the Google Meet ↔ Home Assistant extension
+ *
+ * GOAL:
+ * Chrome stops the background service worker after a short idle time and starts a new one
+ * on the next event (alarm, message, tab change). The call status reported by each Meet
+ * tab and the last meeting status only lived in memory, so a new worker treated a tab in
+ * the lobby as being in a call until its content script reported again, forgot when the
+ * meeting started and fired the "meeting started" rules and events a second time.
+ *
+ * This module keeps that state in `chrome.storage.session`, which lasts until the browser
+ * is closed and is not written to disk, so each new worker carries on where the previous
+ * one stopped.
+ *
+ * METHODS:
+ * - getWorkerState(): Gets the state left by the previous service worker
+ * - saveWorkerState(): Saves the state for the next service worker
+ *
+ * INTERFACES:
+ * - WorkerState: Meeting state kept across service worker restarts
+ */
+
+import { CallStatusMessage, MeetingStatus } from "./meet";
+
+// Key of the worker state in chrome.storage.session
+const WORKER_STATE_KEY = "worker_state";
+
+// Saves run one after another, so the latest state is written last
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Meeting state kept across service worker restarts
+ */
+export interface WorkerState {
+    /** Last call status reported by the content script of each Meet tab, keyed by tab ID */
+    tabReports: Record<string, CallStatusMessage>;
+    /** Last meeting status computed from the tabs */
+    lastStatus: MeetingStatus | null;
+    /** Last meeting status sent to Home Assistant */
+    lastPublished: MeetingStatus | null;
+}
+
+/**
+ * Gets the session storage area, which the bundled Chrome types do not declare yet (Chrome 102+)
+ */
+function getSessionStorage(): chrome.storage.StorageArea {
+    return (chrome.storage as typeof chrome.storage & { session: chrome.storage.StorageArea }).session;
+}
+
+/**
+ * Gets the state left by the previous service worker
+ * @returns The saved state, empty when the browser was just started
+ */
+export async function getWorkerState(): Promise<WorkerState> {
+    const stored = await getSessionStorage().get(WORKER_STATE_KEY);
+    return {
+        tabReports: {},
+        lastStatus: null,
+        lastPublished: null,
+        ...stored[WORKER_STATE_KEY],
+    };
+}
+
+/**
+ * Saves the state for the next service worker
+ * @param state - Current meeting state
+ */
+export function saveWorkerState(state: WorkerState): Promise<void> {
+    const next = pendingChange.then(() => getSessionStorage().set({ [WORKER_STATE_KEY]: state }));
+
+    // A failed save must not block the following ones
+    pendingChange = next.catch(() => undefined);
+    return next;
+}
@@ -5,12 +5,13 @@ module.exports = {
     mode: "production",
     entry: {
         background: path.join(srcDir, 'background.ts'),
+        content: path.join(srcDir, 'content.ts'),
     },
     output: {
         path: path.join(__dirname, "../dist/js"),
         filename: "[name].js",
     },
-    // Disable code splitting for background script
+    // Disable code splitting for background and content scripts
     optimization: {
         splitChunks: false,
         runtimeChunk: false,